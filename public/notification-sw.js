@@ -0,0 +1,22 @@
+// Imported into the generated service worker (see vite.config.ts).
+// Notification action buttons are only reported to the service worker, so
+// forward them to the open page(s), which own the alert policy.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+      for (const client of windows) {
+        client.postMessage({
+          type: "notification-action",
+          action: event.action,
+          tag: event.notification.tag,
+        });
+      }
+      if (!event.action && windows[0]) await windows[0].focus();
+    })(),
+  );
+});
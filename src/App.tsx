@@ -1,10 +1,108 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useCamera } from "./hooks/useCamera";
 import { useFaceLandmarker } from "./hooks/useFaceLandmarker";
-import { computeSignals, type Signals } from "./face/computeSignals";
-import { playRelaxChime } from "./utils/audio";
+import type { Signals } from "./face/computeSignals";
+import type { Detection } from "./face/detector";
+import { classify } from "./face/classify";
+import {
+  TensionEngine,
+  type TensionEngineEvents,
+  type TensionEpisode,
+} from "./face/tensionEngine";
+import { DEFAULT_THRESHOLDS, sanitizeThresholds } from "./face/thresholds";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  SignalFilter,
+  sanitizeFilterSettings,
+} from "./face/signalFilter";
+import {
+  BlinkMonitor,
+  type BlinkStats,
+  type EyeStrainEpisode,
+} from "./face/blinkMonitor";
+import { PresenceTracker, type PresenceInterval } from "./face/presenceTracker";
+import { FaceLock, type FaceLockStatus } from "./face/faceLock";
+import {
+  InputQualityMonitor,
+  QUALITY_ISSUES,
+  qualityLevel,
+  type InputQuality,
+} from "./face/inputQuality";
+import {
+  DEFAULT_LANDMARK_STYLE,
+  drawLandmarks,
+  drawRegionOverlay,
+  sanitizeLandmarkStyle,
+} from "./face/drawUtils";
+import { regionDeviations } from "./face/regionDeviation";
+import {
+  RelaxationSession,
+  type RelaxationRecord,
+  type RelaxationState,
+} from "./face/relaxation";
+import type { TensionRegion } from "./face/classify";
+import {
+  appendFrame,
+  createRecording,
+  type LandmarkRecording,
+} from "./face/sessionRecording";
+import { useCalibrationProfiles } from "./hooks/useCalibrationProfiles";
+import { usePersistentHistory } from "./hooks/usePersistentHistory";
+import { usePersistentSettings } from "./hooks/usePersistentSettings";
+import { useVoiceActivity } from "./hooks/useVoiceActivity";
+import {
+  DEFAULT_SOUND_SETTINGS,
+  playAlertSound,
+  sanitizeSoundSettings,
+} from "./utils/audio";
+import {
+  AlertPolicy,
+  DEFAULT_ALERT_POLICY,
+  sanitizeAlertPolicy,
+  type AlertLevel,
+} from "./utils/alertPolicy";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  sanitizeCameraSettings,
+} from "./utils/cameraSettings";
+import {
+  showAlertNotification,
+  SNOOZE_ACTION,
+  type NotificationActionMessage,
+} from "./utils/notifications";
+import {
+  createFrameScheduler,
+  type FrameScheduler,
+  type ScheduleMode,
+} from "./utils/frameScheduler";
+import { createPipCompositor, type PipCompositor } from "./utils/pipCompositor";
+import {
+  buildSessionExport,
+  downloadFile,
+  downloadRecording,
+  episodesToCSV,
+  framesToCSV,
+  type FrameState,
+  type RecordingSegment,
+  type SignalFrame,
+} from "./utils/export";
 import { StatusIndicator } from "./components/StatusIndicator";
 import { ThemeToggle } from "./components/ThemeToggle";
+import { ProfileSwitcher } from "./components/ProfileSwitcher";
+import { HistoryView } from "./components/HistoryView";
+import { EyeStrainHistory } from "./components/EyeStrainHistory";
+import { PresenceHistory } from "./components/PresenceHistory";
+import { RelaxationPanel } from "./components/RelaxationPanel";
+import { RelaxationHistory } from "./components/RelaxationHistory";
+import { TensionOverlayLegend } from "./components/TensionOverlayLegend";
+import { ExportPanel } from "./components/ExportPanel";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { FilterSettingsPanel } from "./components/FilterSettingsPanel";
+import { AlertPolicyPanel } from "./components/AlertPolicyPanel";
+import { LandmarkStylePanel } from "./components/LandmarkStylePanel";
+import { SoundSettingsPanel } from "./components/SoundSettingsPanel";
+import { CameraSettingsPanel } from "./components/CameraSettingsPanel";
+import { SessionRecorderPanel } from "./components/SessionRecorderPanel";
 import { Switch } from "./components/ui/switch";
 import { Label } from "./components/ui/label";
 import {
@@ -16,59 +114,226 @@ import {
 import { Button } from "./components/ui/button";
 
 // Timing
-const CALIBRATION_DURATION_MS = 10_000;
-const TENSION_ALERT_THRESHOLD_MS = 3_000;
-const SAMPLE_INTERVAL_MS = 100;
 const UI_UPDATE_INTERVAL_MS = 100;
+const MIN_EPISODE_DURATION_MS = 1_000;
+const MAX_RECORDED_FRAMES = 100_000;
+const MAX_LANDMARK_RECORDING_MS = 5 * 60_000;
+const STALL_TIMEOUT_MS = 3_000;
 
-// Detection thresholds (relative to calibrated neutral)
-const TENSION_THRESHOLD = 0.9;
-const SMILE_MOUTH_WIDTH_THRESHOLD = 1.05;
-const SMILE_CORNER_LIFT_THRESHOLD = 1.3;
-const SMILE_CHEEK_RAISE_THRESHOLD = 0.95;
-const HEAD_ROTATION_THRESHOLD = 0.5;
+// Live readouts, raw and filtered side by side
+const READOUTS: {
+  key: keyof Signals;
+  label: string;
+  digits: number;
+  isPose?: boolean;
+}[] = [
+  { key: "eyeOpenAvg", label: "Eye openness", digits: 4 },
+  { key: "browInnerDist", label: "Brow inner distance", digits: 4 },
+  { key: "browDown", label: "Brow down", digits: 2 },
+  { key: "eyeSquint", label: "Eye squint", digits: 2 },
+  { key: "lipThickness", label: "Lip thickness", digits: 4 },
+  { key: "jawWidth", label: "Jaw width", digits: 4 },
+  { key: "headYaw", label: "Head yaw (°)", digits: 0, isPose: true },
+  { key: "headPitch", label: "Head pitch (°)", digits: 0, isPose: true },
+  { key: "headRoll", label: "Head roll (°)", digits: 0, isPose: true },
+];
 
 function App() {
   // Custom hooks for camera and face detection
-  const { videoRef, status: cameraStatus, error: cameraError } = useCamera();
+  const [cameraSettings, updateCameraSettings, resetCameraSettings] =
+    usePersistentSettings(
+      "ftm.cameraSettings",
+      DEFAULT_CAMERA_SETTINGS,
+      sanitizeCameraSettings,
+    );
   const {
-    landmarkerRef,
+    videoRef,
+    status: cameraStatus,
+    error: cameraError,
+    devices: cameraDevices,
+    activeDeviceId,
+  } = useCamera(cameraSettings);
+  const {
+    detectorRef,
     status: landmarkerStatus,
     error: landmarkerError,
+    mode: detectorMode,
   } = useFaceLandmarker();
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const rafIdRef = useRef<number | null>(null);
 
-  // Calibration state (both state for UI and ref for animation loop)
+  // Detection thresholds
+  const [thresholds, updateThresholds, resetThresholds] = usePersistentSettings(
+    "ftm.thresholds",
+    DEFAULT_THRESHOLDS,
+    sanitizeThresholds,
+  );
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Temporal filtering between computeSignals and detection
+  const [filterSettings, updateFilterSettings, resetFilterSettings] =
+    usePersistentSettings(
+      "ftm.filterSettings",
+      DEFAULT_FILTER_SETTINGS,
+      sanitizeFilterSettings,
+    );
+  const [signalFilter] = useState(() => new SignalFilter(filterSettings));
+
+  // Frame scheduling (foreground video frames, background worker timer)
+  const schedulerRef = useRef<FrameScheduler | null>(null);
+  const backgroundIntervalMsRef = useRef(thresholds.backgroundIntervalMs);
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>("foreground");
+  const lastDetectionTimeRef = useRef(0);
+  const [isStalled, setIsStalled] = useState(false);
+
+  // Detection engine (calibration, smile/head-turn gating, tension timing)
+  const [engine] = useState(() => new TensionEngine(thresholds));
+
+  // Which face is the user's when several are in view
+  const [faceLock] = useState(() => new FaceLock());
+  const [faceLockState, setFaceLockState] = useState<{
+    status: FaceLockStatus;
+    faceCount: number;
+  }>({ status: "none", faceCount: 0 });
+  useEffect(() => faceLock.on("statusChange", setFaceLockState), [faceLock]);
+
+  // Lighting, distance, jitter and occlusion of the user's face
+  const [inputQualityMonitor] = useState(() => new InputQualityMonitor());
+  const [inputQuality, setInputQuality] = useState<InputQuality | null>(null);
+
+  // Blinks and eye strain (fed raw signals; filtering would hide blinks)
+  const [blinkMonitor] = useState(() => new BlinkMonitor(thresholds));
+  const [blinkStats, setBlinkStats] = useState<BlinkStats | null>(null);
+  const [isEyeStrain, setIsEyeStrain] = useState(false);
+  const [isEyeStrainAlertEnabled, setIsEyeStrainAlertEnabled] = useState(true);
+  const [eyeStrainEpisodes, recordEyeStrainEpisode, clearEyeStrainHistory] =
+    usePersistentHistory<EyeStrainEpisode>("ftm.eyeStrainEpisodes");
+
+  // Presence (away after a grace period with no face) and break reminders
+  const [presenceTracker] = useState(() => new PresenceTracker(thresholds));
+  const [isAway, setIsAway] = useState(false);
+  const [isBreakReminderEnabled, setIsBreakReminderEnabled] = useState(false);
+  const [breakDueAfterMs, setBreakDueAfterMs] = useState<number | null>(null);
+  const [presenceIntervals, recordPresenceInterval, clearPresenceHistory] =
+    usePersistentHistory<PresenceInterval>("ftm.presenceIntervals");
+
+  // Calibration state for UI
   const [isCalibrating, setIsCalibrating] = useState(false);
-  const isCalibrationRef = useRef(false);
-  const calibrationEndTimeRef = useRef<number | null>(null);
-  const samplesRef = useRef<Signals[]>([]);
-  const lastSampleTimeRef = useRef(0);
   const [calibrationSecondsLeft, setCalibrationSecondsLeft] = useState(10);
 
-  // Neutral baseline from calibration
-  const neutralRef = useRef<Signals | null>(null);
-  const hasCalibratedRef = useRef(false);
-  const [hasCalibrated, setHasCalibrated] = useState(false);
+  // Neutral baseline from calibration, persisted per profile
+  const {
+    profiles,
+    activeProfile,
+    selectProfile,
+    createProfile,
+    deleteProfile,
+    saveCalibration,
+  } = useCalibrationProfiles();
+  const hasCalibrated = !isCalibrating && activeProfile?.neutral != null;
+
+  // Optional microphone voice activity, to help talking detection
+  const [isMicEnabled, setIsMicEnabled] = useState(false);
+  const {
+    isVoiceActive,
+    status: micStatus,
+    error: micError,
+  } = useVoiceActivity(isMicEnabled);
+
+  // Adaptive baseline (the engine's copy drifts; the profile keeps the original)
+  const [isAdaptiveBaseline, setIsAdaptiveBaseline] = useState(false);
+  const [baseline, setBaseline] = useState<
+    TensionEngineEvents["baselineChange"] | null
+  >(null);
 
-  // Tension tracking
-  const tensionStartTimeRef = useRef<number | null>(null);
+  // Alerts
   const audioCtxRef = useRef<AudioContext | null>(null);
   const [isAlertEnabled, setIsAlertEnabled] = useState(true);
+  const [alertPolicySettings, updateAlertPolicy, resetAlertPolicy] =
+    usePersistentSettings(
+      "ftm.alertPolicy",
+      DEFAULT_ALERT_POLICY,
+      sanitizeAlertPolicy,
+    );
+  const [alertPolicy] = useState(() => new AlertPolicy(alertPolicySettings));
+  const [snoozedUntil, setSnoozedUntil] = useState<number | null>(null);
+  const [isVisualAlert, setIsVisualAlert] = useState(false);
+  const [soundSettings, updateSoundSettings, resetSoundSettings] =
+    usePersistentSettings(
+      "ftm.soundSettings",
+      DEFAULT_SOUND_SETTINGS,
+      sanitizeSoundSettings,
+    );
+  const getAudioContext = useCallback(() => {
+    if (!audioCtxRef.current) audioCtxRef.current = new AudioContext();
+    return audioCtxRef.current;
+  }, []);
+
+  // Guided relaxation, offered after an alert (state for UI, ref for the loop)
+  const [relaxationOffer, setRelaxationOffer] = useState<
+    TensionRegion[] | null
+  >(null);
+  const relaxationRef = useRef<RelaxationSession | null>(null);
+  const [relaxation, setRelaxation] = useState<{
+    startedAt: number;
+    state: RelaxationState;
+  } | null>(null);
+  const [relaxationResult, setRelaxationResult] =
+    useState<RelaxationRecord | null>(null);
+  const [relaxations, recordRelaxation, clearRelaxations] =
+    usePersistentHistory<RelaxationRecord>("ftm.relaxations");
 
-  // Live signals for UI display
-  const [eyeOpenAvg, setEyeOpenAvg] = useState<number | null>(null);
-  const [browInnerDist, setBrowInnerDist] = useState<number | null>(null);
+  // Tension episode history
+  const [episodes, recordEpisode, clearHistory] =
+    usePersistentHistory<TensionEpisode>("ftm.episodes");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Signal stream recording for export (state for UI, refs for the loop)
+  const [isRecording, setIsRecording] = useState(false);
+  const isRecordingRef = useRef(false);
+  const [recordIntervalMs, setRecordIntervalMs] = useState(100);
+  const recordIntervalMsRef = useRef(100);
+  const recordedFramesRef = useRef<SignalFrame[]>([]);
+  const recordingSegmentsRef = useRef<RecordingSegment[]>([]);
+  const lastRecordTimeRef = useRef(0);
+  const [recordedFrameCount, setRecordedFrameCount] = useState(0);
+
+  // Raw landmark session recording (saved as a file when stopped)
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState(false);
+  const landmarkRecordingRef = useRef<LandmarkRecording | null>(null);
+  const [recordingLabel, setRecordingLabel] = useState("");
+
+  // Live signals for UI display (raw from computeSignals, and filtered)
+  const [rawSignals, setRawSignals] = useState<Signals | null>(null);
   const [isSmiling, setIsSmiling] = useState(false);
   const [smileScore, setSmileScore] = useState(0);
-  const [headRotation, setHeadRotation] = useState<number | null>(null);
   const [isHeadTurned, setIsHeadTurned] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [latestSignals, setLatestSignals] = useState<Signals | null>(null);
   const lastUiUpdateRef = useRef(0);
 
-  // Picture-in-Picture state
+  // Picture-in-Picture state; the PiP video plays the video and overlay
+  // composited together
   const [isPip, setIsPip] = useState(false);
+  const pipVideoRef = useRef<HTMLVideoElement | null>(null);
+  const pipCompositorRef = useRef<PipCompositor | null>(null);
+
+  // Canvas overlays: landmark style and the per-region tension overlay
+  // (state for UI, ref for the loop)
+  const [landmarkStyle, updateLandmarkStyle, resetLandmarkStyle] =
+    usePersistentSettings(
+      "ftm.landmarkStyle",
+      DEFAULT_LANDMARK_STYLE,
+      sanitizeLandmarkStyle,
+    );
+  const [isTensionOverlay, setIsTensionOverlay] = useState(false);
+  const [isOverlayLabels, setIsOverlayLabels] = useState(false);
+  const overlayRef = useRef({
+    style: landmarkStyle,
+    enabled: false,
+    labels: false,
+  });
+  const thresholdsRef = useRef(thresholds);
 
   // Request notification permission on mount
   useEffect(() => {
@@ -77,13 +342,305 @@ function App() {
     }
   }, []);
 
+  useEffect(() => {
+    engine.setThresholds(thresholds);
+    blinkMonitor.setThresholds(thresholds);
+    presenceTracker.setThresholds(thresholds);
+    thresholdsRef.current = thresholds;
+  }, [engine, blinkMonitor, presenceTracker, thresholds]);
+
+  useEffect(() => {
+    signalFilter.setSettings(filterSettings);
+  }, [signalFilter, filterSettings]);
+
+  useEffect(() => {
+    backgroundIntervalMsRef.current = thresholds.backgroundIntervalMs;
+    schedulerRef.current?.setBackgroundInterval(
+      thresholds.backgroundIntervalMs,
+    );
+  }, [thresholds.backgroundIntervalMs]);
+
+  // Flag when detections stop arriving (e.g. the browser froze the tab)
+  useEffect(() => {
+    if (cameraStatus !== "ready" || landmarkerStatus !== "ready") return;
+
+    const id = setInterval(() => {
+      setIsStalled(
+        Date.now() - lastDetectionTimeRef.current >
+          Math.max(STALL_TIMEOUT_MS, thresholds.backgroundIntervalMs * 3),
+      );
+    }, 1_000);
+    return () => clearInterval(id);
+  }, [cameraStatus, landmarkerStatus, thresholds.backgroundIntervalMs]);
+
+  // Load the active profile's baseline and face (on startup, switch, or
+  // recalibration)
+  useEffect(() => {
+    engine.setNeutral(activeProfile?.neutral ?? null);
+  }, [engine, activeProfile]);
+
+  useEffect(() => {
+    faceLock.setSignature(activeProfile?.faceSignature ?? null);
+  }, [faceLock, activeProfile]);
+
+  useEffect(() => {
+    engine.setAdaptiveBaseline(isAdaptiveBaseline);
+  }, [engine, isAdaptiveBaseline]);
+
+  useEffect(() => {
+    engine.setVoiceActive(isVoiceActive);
+  }, [engine, isVoiceActive]);
+
+  useEffect(() => {
+    alertPolicy.setSettings(alertPolicySettings);
+  }, [alertPolicy, alertPolicySettings]);
+
+  // Export records the settings recorded frames were taken under: a segment
+  // opens when recording starts and whenever they change mid-recording
+  const activeNeutral = activeProfile?.neutral ?? null;
+  useEffect(() => {
+    if (!isRecording) return;
+    recordingSegmentsRef.current.push({
+      startedAt: Date.now(),
+      sampleIntervalMs: recordIntervalMs,
+      thresholds,
+      neutral: activeNeutral,
+    });
+  }, [isRecording, recordIntervalMs, thresholds, activeNeutral]);
+
+  // Snooze from the notification's action button
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const onMessage = (e: MessageEvent<NotificationActionMessage>) => {
+      if (e.data?.type !== "notification-action") return;
+      if (e.data.action === SNOOZE_ACTION) {
+        setSnoozedUntil(alertPolicy.snooze(Date.now()));
+      }
+    };
+
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () =>
+      navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, [alertPolicy]);
+
+  // Clear the snooze indicator when it runs out
+  useEffect(() => {
+    if (snoozedUntil === null) return;
+    const id = setTimeout(
+      () => setSnoozedUntil(null),
+      Math.max(0, snoozedUntil - Date.now()),
+    );
+    return () => clearTimeout(id);
+  }, [snoozedUntil]);
+
+  // Flag the tab title while a visual alert is showing
+  useEffect(() => {
+    if (!isVisualAlert) return;
+    const title = document.title;
+    document.title = `😣 Relax your face – ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [isVisualAlert]);
+
+  // Engine events
+  useEffect(() => {
+    function triggerTensionAlert(level: AlertLevel) {
+      setIsVisualAlert(true);
+      if (level === "visual") return;
+
+      playAlertSound(getAudioContext(), "tension", soundSettings);
+
+      if (level === "notification") {
+        showAlertNotification("Tension detected! Relax your face :)", {
+          snoozeMinutes: alertPolicySettings.snoozeMinutes,
+          tag: "tension",
+        }).catch((err) => {
+          // E.g. permission revoked or no active service worker yet; the
+          // in-page alert set above stands in for it
+          console.warn("Couldn't show the tension notification:", err);
+        });
+      }
+    }
+
+    const unsubscribers = [
+      engine.on("calibrationProgress", ({ secondsLeft }) =>
+        setCalibrationSecondsLeft(secondsLeft),
+      ),
+      engine.on(
+        "calibrationComplete",
+        ({ neutral, sampleCount, thresholds }) => {
+          setIsCalibrating(false);
+          if (neutral) {
+            saveCalibration({
+              neutral,
+              sampleCount,
+              thresholds,
+              faceSignature: faceLock.getSignature(),
+            });
+          }
+        },
+      ),
+      engine.on("baselineChange", setBaseline),
+      engine.on("smileChange", ({ isSmiling }) => setIsSmiling(isSmiling)),
+      engine.on("headTurnChange", ({ isHeadTurned }) =>
+        setIsHeadTurned(isHeadTurned),
+      ),
+      engine.on("talkingChange", ({ isTalking }) => setIsTalking(isTalking)),
+      engine.on("tensionEnd", ({ episode }) => {
+        setIsVisualAlert(false);
+        // Ignore blips shorter than the minimum
+        if (episode.durationMs >= MIN_EPISODE_DURATION_MS) {
+          recordEpisode(episode);
+        }
+      }),
+      engine.on("alertDue", ({ time, regions }) => {
+        // The user is already working on it
+        if (!isAlertEnabled || relaxationRef.current) return;
+        const decision = alertPolicy.decide(time);
+        if (!decision.allowed) return;
+        triggerTensionAlert(decision.level);
+        alertPolicy.record(time);
+        engine.markAlertFired();
+        setRelaxationOffer(regions);
+        setRelaxationResult(null);
+      }),
+    ];
+
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [
+    engine,
+    faceLock,
+    alertPolicy,
+    alertPolicySettings.snoozeMinutes,
+    isAlertEnabled,
+    getAudioContext,
+    soundSettings,
+    saveCalibration,
+    recordEpisode,
+  ]);
+
+  // Blink monitor events
+  useEffect(() => {
+    function triggerEyeStrainAlert(ratePerMin: number) {
+      showAlertNotification(
+        `You're blinking ${ratePerMin.toFixed(0)} times a minute. Look away and blink a few times.`,
+        { snoozeMinutes: alertPolicySettings.snoozeMinutes, tag: "eyeStrain" },
+      ).catch((err) => {
+        // The low blink rate notice on the page stands in for it
+        console.warn("Couldn't show the eye-strain notification:", err);
+      });
+
+      playAlertSound(getAudioContext(), "eyeStrain", soundSettings);
+    }
+
+    const unsubscribers = [
+      blinkMonitor.on("stats", setBlinkStats),
+      blinkMonitor.on("eyeStrainStart", () => setIsEyeStrain(true)),
+      blinkMonitor.on("eyeStrainEnd", ({ episode }) => {
+        setIsEyeStrain(false);
+        recordEyeStrainEpisode(episode);
+      }),
+      blinkMonitor.on("eyeStrainAlertDue", ({ time, ratePerMin }) => {
+        if (!isEyeStrainAlertEnabled || alertPolicy.isMuted(time)) return;
+        triggerEyeStrainAlert(ratePerMin);
+        blinkMonitor.markAlertFired();
+      }),
+    ];
+
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [
+    blinkMonitor,
+    alertPolicy,
+    alertPolicySettings.snoozeMinutes,
+    isEyeStrainAlertEnabled,
+    recordEyeStrainEpisode,
+    getAudioContext,
+    soundSettings,
+  ]);
+
+  // Presence events
+  useEffect(() => {
+    function triggerBreakReminder(atScreenMs: number) {
+      const minutes = Math.round(atScreenMs / 60_000);
+      setBreakDueAfterMs(atScreenMs);
+      showAlertNotification(
+        `You've been at the screen ${minutes} minutes. Time for a short break.`,
+        { snoozeMinutes: alertPolicySettings.snoozeMinutes, tag: "break" },
+      ).catch((err) => {
+        // The break notice on the page stands in for it
+        console.warn("Couldn't show the break notification:", err);
+      });
+      playAlertSound(getAudioContext(), "absence", soundSettings);
+    }
+
+    const unsubscribers = [
+      presenceTracker.on("presenceChange", ({ isPresent, time }) => {
+        setIsAway(!isPresent);
+        if (isPresent) return;
+        // Don't let timers or stale readings carry over the absence
+        engine.reset(time);
+        blinkMonitor.reset(time);
+        setIsVisualAlert(false);
+        setBreakDueAfterMs(null);
+        setRawSignals(null);
+        setLatestSignals(null);
+        setInputQuality(null);
+      }),
+      presenceTracker.on("intervalEnd", ({ interval }) =>
+        recordPresenceInterval(interval),
+      ),
+      presenceTracker.on("breakDue", ({ time, atScreenMs }) => {
+        if (isBreakReminderEnabled && !alertPolicy.isMuted(time)) {
+          triggerBreakReminder(atScreenMs);
+        }
+      }),
+    ];
+
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [
+    presenceTracker,
+    engine,
+    blinkMonitor,
+    alertPolicy,
+    alertPolicySettings.snoozeMinutes,
+    isBreakReminderEnabled,
+    recordPresenceInterval,
+    getAudioContext,
+    soundSettings,
+  ]);
+
+  useEffect(() => {
+    overlayRef.current = {
+      style: landmarkStyle,
+      enabled: isTensionOverlay,
+      labels: isOverlayLabels,
+    };
+  }, [landmarkStyle, isTensionOverlay, isOverlayLabels]);
+
   // Track PiP state changes
   useEffect(() => {
-    const video = videoRef.current;
+    const video = pipVideoRef.current;
     if (!video) return;
 
+    function stopCompositor() {
+      pipCompositorRef.current?.stop();
+      pipCompositorRef.current = null;
+    }
+
     const onEnterPip = () => setIsPip(true);
-    const onLeavePip = () => setIsPip(false);
+    const onLeavePip = () => {
+      setIsPip(false);
+      stopCompositor();
+      video.srcObject = null;
+    };
 
     video.addEventListener("enterpictureinpicture", onEnterPip);
     video.addEventListener("leavepictureinpicture", onLeavePip);
@@ -91,8 +648,9 @@ function App() {
     return () => {
       video.removeEventListener("enterpictureinpicture", onEnterPip);
       video.removeEventListener("leavepictureinpicture", onLeavePip);
+      stopCompositor();
     };
-  }, [videoRef]);
+  }, []);
 
   // Main detection loop
   useEffect(() => {
@@ -116,244 +674,316 @@ function App() {
 
     let cancelled = false;
 
-    function drawLandmarks(
-      landmarks: Array<{ x: number; y: number }>,
-      width: number,
-      height: number,
+    function recordFrame(
+      signals: Signals,
+      state: FrameState | null,
+      now: number,
     ) {
-      context.fillStyle = "lime";
-      for (const pt of landmarks) {
-        const x = pt.x * width;
-        const y = pt.y * height;
-        context.beginPath();
-        context.arc(x, y, 1, 0, Math.PI * 2);
-        context.fill();
-      }
-    }
+      if (now - lastRecordTimeRef.current < recordIntervalMsRef.current) return;
+      lastRecordTimeRef.current = now;
 
-    function handleCalibrationSample(signals: Signals, now: number) {
-      if (now - lastSampleTimeRef.current >= SAMPLE_INTERVAL_MS) {
-        // Only collect samples when facing forward (head not turned)
-        if (Math.abs(signals.headRotation) <= HEAD_ROTATION_THRESHOLD) {
-          samplesRef.current.push(signals);
-        }
-        lastSampleTimeRef.current = now;
-        setCalibrationSecondsLeft(
-          Math.max(0, Math.ceil((calibrationEndTimeRef.current! - now) / 1000)),
-        );
-      }
+      const frames = recordedFramesRef.current;
+      if (frames.length >= MAX_RECORDED_FRAMES) frames.shift();
+      frames.push({
+        t: now,
+        signals,
+        isSmiling: state?.isSmiling ?? false,
+        smileScore: state?.smileScore ?? 0,
+        isHeadTurned: state?.isHeadTurned ?? engine.isHeadTurned,
+        isTense: state?.isTense ?? false,
+      });
     }
 
-    function finalizeCalibration() {
-      isCalibrationRef.current = false;
-      setIsCalibrating(false);
-      calibrationEndTimeRef.current = null;
-
-      const samples = samplesRef.current;
-      if (samples.length > 0) {
-        const eyeMean =
-          samples.reduce((sum, s) => sum + s.eyeOpenAvg, 0) / samples.length;
-        const browMean =
-          samples.reduce((sum, s) => sum + s.browInnerDist, 0) / samples.length;
-        const mouthMean =
-          samples.reduce((sum, s) => sum + s.mouthWidth, 0) / samples.length;
-        const cornerLiftMean =
-          samples.reduce((sum, s) => sum + s.mouthCornerLift, 0) /
-          samples.length;
-        const cheekRaiseMean =
-          samples.reduce((sum, s) => sum + s.cheekRaise, 0) / samples.length;
-        const headRotationMean =
-          samples.reduce((sum, s) => sum + s.headRotation, 0) / samples.length;
-        neutralRef.current = {
-          eyeOpenAvg: eyeMean,
-          browInnerDist: browMean,
-          mouthWidth: mouthMean,
-          mouthCornerLift: cornerLiftMean,
-          cheekRaise: cheekRaiseMean,
-          headRotation: headRotationMean,
-        };
-        hasCalibratedRef.current = true;
-        setHasCalibrated(true);
-      }
+    function handleDetection(detection: Detection) {
+      if (cancelled) return;
+      lastDetectionTimeRef.current = Date.now();
 
-      samplesRef.current = [];
-    }
+      context.clearRect(0, 0, canvasEl.width, canvasEl.height);
 
-    function detectSmile(
-      signals: Signals,
-      neutral: Signals,
-    ): { isSmiling: boolean; score: number } {
-      const mouthWidthRatio = signals.mouthWidth / neutral.mouthWidth;
-      const mouthWidthScore = Math.max(0, (mouthWidthRatio - 1) * 10);
-
-      const cornerLiftDelta = signals.mouthCornerLift - neutral.mouthCornerLift;
-      const cornerLiftScore = Math.max(0, cornerLiftDelta * 100);
-
-      const cheekRaiseRatio = signals.cheekRaise / neutral.cheekRaise;
-      const cheekRaiseScore = Math.max(0, (1 - cheekRaiseRatio) * 10);
-
-      const score =
-        mouthWidthScore * 0.4 + cornerLiftScore * 0.35 + cheekRaiseScore * 0.25;
-
-      // Require at least 2 of 3 indicators for robustness
-      const indicators = [
-        mouthWidthRatio > SMILE_MOUTH_WIDTH_THRESHOLD,
-        cornerLiftDelta >
-          (neutral.mouthCornerLift * (SMILE_CORNER_LIFT_THRESHOLD - 1) ||
-            0.002),
-        cheekRaiseRatio < SMILE_CHEEK_RAISE_THRESHOLD,
-      ];
-      const isSmiling = score > 0.3 || indicators.filter(Boolean).length >= 2;
-
-      return { isSmiling, score: Math.min(1, score) };
-    }
+      const now = Date.now();
 
-    function checkTension(signals: Signals, now: number) {
-      const neutral = neutralRef.current;
-      if (!neutral) return;
-
-      const headTurned =
-        Math.abs(signals.headRotation) > HEAD_ROTATION_THRESHOLD;
-      if (headTurned) {
-        tensionStartTimeRef.current = null;
-        setIsSmiling(false);
-        setSmileScore(0);
-        return;
-      }
+      // Only the user's face; none while it can't be told apart
+      const face = faceLock.select(detection.faces, now);
+      const landmarks = face?.landmarks ?? null;
+      const faceSignals = face?.signals ?? null;
 
-      const { isSmiling: smiling, score } = detectSmile(signals, neutral);
-      setIsSmiling(smiling);
-      setSmileScore(score);
-
-      const isTense =
-        !smiling &&
-        (signals.eyeOpenAvg < neutral.eyeOpenAvg * TENSION_THRESHOLD ||
-          signals.browInnerDist < neutral.browInnerDist * TENSION_THRESHOLD);
-
-      if (isTense) {
-        if (tensionStartTimeRef.current === null) {
-          tensionStartTimeRef.current = now;
-        } else if (
-          now - tensionStartTimeRef.current >=
-          TENSION_ALERT_THRESHOLD_MS
-        ) {
-          if (isAlertEnabled) {
-            triggerTensionAlert();
-          }
-          tensionStartTimeRef.current = null;
-        }
-      } else {
-        tensionStartTimeRef.current = null;
-      }
-    }
+      // Only the user counts as present, not someone else at the desk
+      presenceTracker.update(face !== null, now);
 
-    function triggerTensionAlert() {
-      // Send notification
-      if (Notification.permission === "granted") {
-        new Notification("Face Tension Monitor", {
-          body: "Tension detected! Relax your face :)",
-          icon: "/favicon.ico",
-          requireInteraction: true,
-        });
+      // Paused on a face that isn't (or can't be told to be) the user's:
+      // don't let an open episode or the alert timers run through the pause
+      if (!face && detection.faces.length > 0) {
+        engine.reset(now);
+        blinkMonitor.reset(now);
       }
 
-      // Play chime sound
-      if (!audioCtxRef.current) {
-        audioCtxRef.current = new AudioContext();
-      }
-      playRelaxChime(audioCtxRef.current);
-    }
+      if (!face) inputQualityMonitor.reset();
+      const quality = face
+        ? inputQualityMonitor.assess(face.landmarks, face.lighting, now)
+        : null;
+      if (faceSignals) blinkMonitor.process(faceSignals, now);
 
-    function loop() {
-      if (cancelled) return;
+      // Filter state shouldn't carry over a gap with no face
+      if (!faceSignals) signalFilter.reset();
+      const signals = faceSignals ? signalFilter.apply(faceSignals, now) : null;
 
-      const landmarker = landmarkerRef.current;
-      if (!landmarker) {
-        rafIdRef.current = requestAnimationFrame(loop);
-        return;
+      const recording = landmarkRecordingRef.current;
+      if (recording) {
+        appendFrame(
+          recording,
+          now,
+          landmarks ?? undefined,
+          face?.blendshapes,
+          face?.transformationMatrix,
+        );
+        if (now - recording.startedAt >= MAX_LANDMARK_RECORDING_MS) {
+          landmarkRecordingRef.current = null;
+          setIsRecordingLandmarks(false);
+          downloadRecording(recording);
+        }
       }
 
-      context.clearRect(0, 0, canvasEl.width, canvasEl.height);
-
-      const result = landmarker.detectForVideo(videoEl, performance.now());
-      const faceLandmarks = result.faceLandmarks?.[0];
-
-      if (faceLandmarks) {
-        drawLandmarks(faceLandmarks, canvasEl.width, canvasEl.height);
-
-        const signals = computeSignals(faceLandmarks);
-        const now = performance.now();
+      const overlay = overlayRef.current;
+      const neutral = engine.baseline;
+      if (landmarks) {
+        drawLandmarks(
+          context,
+          landmarks,
+          canvasEl.width,
+          canvasEl.height,
+          overlay.style,
+        );
+      }
+      if (landmarks && signals && neutral && overlay.enabled) {
+        drawRegionOverlay(
+          context,
+          landmarks,
+          regionDeviations(signals, neutral, thresholdsRef.current),
+          canvasEl.width,
+          canvasEl.height,
+          // The canvas is only ever seen flipped: by CSS in the page and by
+          // the PiP compositor
+          { showLabels: overlay.labels, mirrored: true },
+        );
+      }
 
-        if (signals) {
-          // Handle calibration
-          if (isCalibrationRef.current) {
-            handleCalibrationSample(signals, now);
+      if (faceSignals && signals) {
+        // Poor frames pause detection and are left out of calibration
+        engine.setInputQuality(quality?.score ?? 1);
+        const classification = engine.process(signals, now, faceSignals);
 
-            if (
-              calibrationEndTimeRef.current !== null &&
-              now >= calibrationEndTimeRef.current
-            ) {
-              finalizeCalibration();
-            }
-          }
+        const session = relaxationRef.current;
+        const relaxationState = session?.process(signals, now);
+        if (session && relaxationState?.isComplete) {
+          const record = session.finish(now);
+          relaxationRef.current = null;
+          recordRelaxation(record);
+          setRelaxation(null);
+          setRelaxationResult(record);
+        }
 
-          // Update UI (throttled)
-          if (now - lastUiUpdateRef.current > UI_UPDATE_INTERVAL_MS) {
-            setEyeOpenAvg(signals.eyeOpenAvg);
-            setBrowInnerDist(signals.browInnerDist);
-            setHeadRotation(signals.headRotation);
-            setIsHeadTurned(
-              Math.abs(signals.headRotation) > HEAD_ROTATION_THRESHOLD,
+        // Update UI (throttled)
+        if (now - lastUiUpdateRef.current > UI_UPDATE_INTERVAL_MS) {
+          setRawSignals(faceSignals);
+          setSmileScore(classification?.smileScore ?? 0);
+          setLatestSignals(signals);
+          setInputQuality(quality);
+          setRecordedFrameCount(recordedFramesRef.current.length);
+          if (relaxationRef.current && relaxationState) {
+            setRelaxation(
+              (prev) => prev && { ...prev, state: relaxationState },
             );
-            lastUiUpdateRef.current = now;
           }
+          lastUiUpdateRef.current = now;
+        }
 
-          // Check for tension after calibration
-          if (hasCalibratedRef.current) {
-            checkTension(signals, now);
-          }
+        if (isRecordingRef.current) {
+          recordFrame(signals, classification, now);
         }
       }
+    }
+
+    // One frame in flight at a time; frames arriving meanwhile are skipped
+    let isDetecting = false;
+
+    function tick() {
+      if (cancelled) return;
+
+      const detector = detectorRef.current;
+      if (!detector || isDetecting) return;
 
-      rafIdRef.current = requestAnimationFrame(loop);
+      isDetecting = true;
+      detector
+        .detect(videoEl, performance.now())
+        .then(handleDetection)
+        .catch((err) => console.error("Detection error:", err))
+        .finally(() => {
+          isDetecting = false;
+        });
     }
 
-    rafIdRef.current = requestAnimationFrame(loop);
+    // Keeps sampling (at a lower rate) when the tab is hidden
+    const scheduler = createFrameScheduler(videoEl, tick, {
+      backgroundIntervalMs: backgroundIntervalMsRef.current,
+      onModeChange: setScheduleMode,
+    });
+    schedulerRef.current = scheduler;
 
     return () => {
       cancelled = true;
-      if (rafIdRef.current) {
-        cancelAnimationFrame(rafIdRef.current);
-      }
+      scheduler.stop();
+      schedulerRef.current = null;
+      engine.reset(Date.now());
+      blinkMonitor.reset(Date.now());
+      presenceTracker.reset(Date.now());
+      signalFilter.reset();
     };
-  }, [cameraStatus, videoRef, landmarkerRef, isAlertEnabled]);
+  }, [
+    cameraStatus,
+    videoRef,
+    detectorRef,
+    engine,
+    blinkMonitor,
+    signalFilter,
+    presenceTracker,
+    faceLock,
+    inputQualityMonitor,
+    recordRelaxation,
+  ]);
 
   function startCalibration() {
-    samplesRef.current = [];
-    lastSampleTimeRef.current = 0;
-    neutralRef.current = null;
-    hasCalibratedRef.current = false;
-    setHasCalibrated(false);
     setIsSmiling(false);
     setSmileScore(0);
-
+    setCalibrationSecondsLeft(
+      Math.ceil(thresholds.calibrationDurationMs / 1000),
+    );
     setIsCalibrating(true);
-    isCalibrationRef.current = true;
-    calibrationEndTimeRef.current = performance.now() + CALIBRATION_DURATION_MS;
+    // Whoever calibrates becomes the face to follow
+    faceLock.reset();
+    engine.startCalibration(Date.now());
+  }
+
+  function startRelaxation() {
+    const neutral = baseline?.neutral ?? activeProfile?.neutral;
+    if (!neutral) return;
+
+    const now = Date.now();
+    const session = new RelaxationSession(
+      neutral,
+      thresholds,
+      relaxationOffer ?? [],
+      now,
+    );
+    relaxationRef.current = session;
+    setRelaxation({ startedAt: now, state: session.getState() });
+    setRelaxationOffer(null);
+  }
+
+  function stopRelaxation() {
+    const session = relaxationRef.current;
+    if (!session) return;
+    const record = session.finish(Date.now());
+    relaxationRef.current = null;
+    recordRelaxation(record);
+    setRelaxation(null);
+    setRelaxationResult(record);
+  }
+
+  function skipRelaxationStep() {
+    const session = relaxationRef.current;
+    if (!session) return;
+    session.skipStep();
+    const state = session.getState();
+    if (state.isComplete) stopRelaxation();
+    else setRelaxation((prev) => prev && { ...prev, state });
+  }
+
+  function setRecording(recording: boolean) {
+    isRecordingRef.current = recording;
+    setIsRecording(recording);
+  }
+
+  function changeRecordInterval(intervalMs: number) {
+    recordIntervalMsRef.current = intervalMs;
+    setRecordIntervalMs(intervalMs);
+  }
+
+  function setRecordingLandmarks(recording: boolean) {
+    if (recording) {
+      landmarkRecordingRef.current = createRecording(
+        Date.now(),
+        activeProfile?.neutral ?? null,
+        thresholds,
+        recordingLabel.trim(),
+        filterSettings,
+      );
+    } else if (landmarkRecordingRef.current) {
+      downloadRecording(landmarkRecordingRef.current);
+      landmarkRecordingRef.current = null;
+    }
+    setIsRecordingLandmarks(recording);
+  }
+
+  function clearRecording() {
+    recordedFramesRef.current = [];
+    // A running recording carries on under its current settings
+    recordingSegmentsRef.current = isRecording
+      ? recordingSegmentsRef.current.slice(-1)
+      : [];
+    setRecordedFrameCount(0);
+  }
+
+  function exportJSON() {
+    const session = buildSessionExport({
+      segments: recordingSegmentsRef.current,
+      profiles,
+      episodes,
+      frames: recordedFramesRef.current,
+    });
+    downloadFile(
+      `face-tension-session-${Date.now()}.json`,
+      JSON.stringify(session, null, 2),
+      "application/json",
+    );
+  }
+
+  function exportCSV() {
+    const stamp = Date.now();
+    downloadFile(
+      `face-tension-signals-${stamp}.csv`,
+      framesToCSV(recordedFramesRef.current, recordingSegmentsRef.current),
+      "text/csv",
+    );
+    downloadFile(
+      `face-tension-episodes-${stamp}.csv`,
+      episodesToCSV(episodes),
+      "text/csv",
+    );
   }
 
   async function togglePictureInPicture() {
     const video = videoRef.current;
-    if (!video) return;
+    const canvas = canvasRef.current;
+    const pipVideo = pipVideoRef.current;
+    if (!video || !canvas || !pipVideo) return;
 
     try {
       if (document.pictureInPictureElement) {
         await document.exitPictureInPicture();
       } else {
-        await video.requestPictureInPicture();
+        pipCompositorRef.current?.stop();
+        pipCompositorRef.current = createPipCompositor(video, canvas);
+        pipVideo.srcObject = pipCompositorRef.current.stream;
+        await pipVideo.play();
+        await pipVideo.requestPictureInPicture();
       }
     } catch (err) {
       console.error("PiP error:", err);
+      if (!document.pictureInPictureElement) {
+        pipCompositorRef.current?.stop();
+        pipCompositorRef.current = null;
+        pipVideo.srcObject = null;
+      }
     }
   }
 
@@ -365,16 +995,32 @@ function App() {
     if (cameraError) return { type: "error", message: `Error: ${cameraError}` };
     if (landmarkerError)
       return { type: "error", message: `Error: ${landmarkerError}` };
+    if (cameraStatus === "disconnected")
+      return {
+        type: "error",
+        message: "Camera disconnected – waiting for it to come back…",
+      };
     if (cameraStatus === "requesting")
       return { type: "loading", message: "Requesting camera…" };
     if (landmarkerStatus === "loading")
       return { type: "loading", message: "Loading Face Landmarker…" };
     if (cameraStatus === "ready" && landmarkerStatus === "ready")
-      return { type: "ready", message: "Tracking" };
+      return {
+        type: "ready",
+        message:
+          detectorMode === "worker"
+            ? "Tracking"
+            : "Tracking (main thread – UI may stutter)",
+      };
     return { type: "loading", message: "Initializing…" };
   }
 
   const status = getStatus();
+  const qualityBadge = inputQuality && {
+    level: qualityLevel(inputQuality.score, thresholds.minInputQuality),
+    issues: inputQuality.issues.map((issue) => QUALITY_ISSUES[issue]),
+  };
+  const overlayNeutral = baseline?.neutral ?? activeProfile?.neutral ?? null;
   return (
     <div className="flex flex-col items-center p-4 pt-16 relative">
       <div className="absolute top-4 right-4">
@@ -382,29 +1028,163 @@ function App() {
       </div>
       <h1 className="text-3xl font-bold mb-2">Face Tension Monitor</h1>
 
-      <StatusIndicator status={status} />
+      <StatusIndicator
+        status={status}
+        quality={status.type === "ready" ? qualityBadge : null}
+      />
+      {status.type === "ready" && (
+        <p
+          className={`mb-4 text-sm ${isStalled ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}
+        >
+          {isStalled
+            ? "⚠️ Monitoring stalled – no frames are being analyzed"
+            : scheduleMode === "foreground"
+              ? "● Live monitoring"
+              : `● Live monitoring (background, every ${thresholds.backgroundIntervalMs} ms)`}
+        </p>
+      )}
 
       <div className="mb-4 text-sm">
-        <p>Eye openness: {eyeOpenAvg?.toFixed(4) ?? "—"}</p>
-        <p>Brow inner distance: {browInnerDist?.toFixed(4) ?? "—"}</p>
+        <table className="mb-1 tabular-nums">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="pr-4 text-left font-normal">Signal</th>
+              <th className="pr-4 text-right font-normal">Raw</th>
+              <th className="text-right font-normal">Filtered</th>
+            </tr>
+          </thead>
+          <tbody>
+            {READOUTS.map(({ key, label, digits, isPose }) => (
+              <tr
+                key={key}
+                className={
+                  isPose && isHeadTurned
+                    ? "text-amber-600 dark:text-amber-400"
+                    : ""
+                }
+              >
+                <td className="pr-4">{label}</td>
+                <td className="pr-4 text-right">
+                  {rawSignals?.[key].toFixed(digits) ?? "—"}
+                </td>
+                <td className="text-right">
+                  {latestSignals?.[key].toFixed(digits) ?? "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
         <p>
-          Head rotation:{" "}
-          {headRotation !== null ? (
-            <span
-              className={
-                isHeadTurned ? "text-amber-600 dark:text-amber-400" : ""
-              }
-            >
-              {(headRotation * 100).toFixed(0)}%
-            </span>
-          ) : (
-            "—"
-          )}
+          Blink rate:{" "}
+          {blinkStats
+            ? `${blinkStats.ratePerMin.toFixed(0)}/min (left ${blinkStats.leftRatePerMin.toFixed(0)} · right ${blinkStats.rightRatePerMin.toFixed(0)}) · ${(blinkStats.incompleteShare * 100).toFixed(0)}% incomplete${blinkStats.isWindowFull ? "" : " · measuring…"}`
+            : "—"}
         </p>
+        {faceLockState.status === "ambiguous" && (
+          <p className="text-amber-600 dark:text-amber-400">
+            👥 {faceLockState.faceCount} faces in view and yours can't be told
+            apart – paused
+          </p>
+        )}
+        {faceLockState.status === "unrecognized" && (
+          <p className="text-amber-600 dark:text-amber-400">
+            👤 This doesn't look like the calibrated face – paused. Recalibrate
+            to switch users.
+          </p>
+        )}
+        {faceLockState.status === "locked" && faceLockState.faceCount > 1 && (
+          <p className="text-muted-foreground">
+            👥 {faceLockState.faceCount} faces in view – following yours
+          </p>
+        )}
+        {qualityBadge?.level === "poor" && !isAway && (
+          <p className="text-amber-600 dark:text-amber-400">
+            💡 Poor input quality (
+            {qualityBadge.issues.join(", ").toLowerCase() || "unclear view"}) –{" "}
+            {isCalibrating
+              ? "calibration is skipping these frames"
+              : "detection paused"}
+          </p>
+        )}
+        {isAway && cameraStatus === "ready" && (
+          <p className="text-muted-foreground font-medium">
+            🚶 Away – timers paused until you're back
+          </p>
+        )}
+        {breakDueAfterMs !== null && (
+          <p className="text-amber-600 dark:text-amber-400">
+            ☕ You've been at the screen {Math.round(breakDueAfterMs / 60_000)}{" "}
+            minutes – time for a short break
+          </p>
+        )}
+        {isEyeStrain && (
+          <p className="text-amber-600 dark:text-amber-400">
+            👁️ Low blink rate – remember to blink
+          </p>
+        )}
+        {isVisualAlert && (
+          <p className="text-red-600 dark:text-red-400 font-medium">
+            😣 Tension – relax your face
+          </p>
+        )}
+        {relaxationOffer && !relaxation && hasCalibrated && (
+          <div className="mt-2 flex items-center justify-center gap-2">
+            <Button
+              onClick={startRelaxation}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+            >
+              Start guided relaxation
+            </Button>
+            <Button
+              onClick={() => setRelaxationOffer(null)}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+            >
+              Not now
+            </Button>
+          </div>
+        )}
+        {relaxationResult && !relaxation && (
+          <p className="text-green-600 dark:text-green-400">
+            🌿 Relaxation {relaxationResult.completed ? "finished" : "stopped"}
+            {relaxationResult.timeToBaselineMs !== null &&
+              ` – back to baseline after ${Math.round(relaxationResult.timeToBaselineMs / 1000)}s`}
+          </p>
+        )}
+        {isAlertEnabled && (
+          <div className="mt-2 flex items-center gap-2">
+            {snoozedUntil !== null ? (
+              <>
+                <span className="text-muted-foreground">
+                  Alerts snoozed until{" "}
+                  {new Date(snoozedUntil).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+                <Button
+                  onClick={() => {
+                    alertPolicy.cancelSnooze();
+                    setSnoozedUntil(null);
+                  }}
+                  className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+                >
+                  Resume alerts
+                </Button>
+              </>
+            ) : (
+              <Button
+                onClick={() => setSnoozedUntil(alertPolicy.snooze(Date.now()))}
+                className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+              >
+                Snooze alerts {alertPolicySettings.snoozeMinutes} min
+              </Button>
+            )}
+          </div>
+        )}
         {hasCalibrated && (
           <p
             className={
-              isHeadTurned
+              isHeadTurned || isTalking
                 ? "text-amber-600 dark:text-amber-400"
                 : isSmiling
                   ? "text-green-600 dark:text-green-400 font-medium"
@@ -413,24 +1193,96 @@ function App() {
           >
             {isHeadTurned
               ? "🔄 Head turned – detection paused"
-              : isSmiling
-                ? `😊 Smiling (${(smileScore * 100).toFixed(0)}%) – no tension alert`
-                : "😐 Neutral"}
+              : isTalking
+                ? "🗣️ Talking – detection paused"
+                : isSmiling
+                  ? `😊 Smiling (${(smileScore * 100).toFixed(0)}%) – no tension alert`
+                  : "😐 Neutral"}
           </p>
         )}
+        {hasCalibrated && (
+          <div className="mt-2 flex items-center gap-2">
+            <Switch
+              id="adaptive-baseline"
+              checked={isAdaptiveBaseline}
+              onCheckedChange={setIsAdaptiveBaseline}
+            />
+            <Label htmlFor="adaptive-baseline">Adaptive baseline</Label>
+            {isAdaptiveBaseline && baseline && (
+              <span
+                className={
+                  baseline.needsRecalibration
+                    ? "text-amber-600 dark:text-amber-400"
+                    : "text-muted-foreground"
+                }
+              >
+                {baseline.needsRecalibration
+                  ? `Drifted ${(baseline.drift * 100).toFixed(0)}% from calibration – consider recalibrating`
+                  : `Drift from calibration: ${(baseline.drift * 100).toFixed(1)}%`}
+              </span>
+            )}
+          </div>
+        )}
+        <div className="mt-2 flex items-center gap-2">
+          <Switch
+            id="mic-talking"
+            checked={isMicEnabled}
+            onCheckedChange={setIsMicEnabled}
+          />
+          <Label htmlFor="mic-talking">Use microphone to detect talking</Label>
+          <span
+            className={
+              micStatus === "error"
+                ? "text-red-600 dark:text-red-400"
+                : "text-muted-foreground"
+            }
+          >
+            {micStatus === "error"
+              ? micError
+              : micStatus === "listening"
+                ? isVoiceActive
+                  ? "Voice detected"
+                  : "Listening (processed locally, never recorded)"
+                : micStatus === "requesting"
+                  ? "Requesting microphone…"
+                  : ""}
+          </span>
+        </div>
       </div>
 
       <div className="w-[640px]">
+        {relaxation && (
+          <div className="mb-4">
+            <RelaxationPanel
+              state={relaxation.state}
+              startedAt={relaxation.startedAt}
+              getAudioContext={getAudioContext}
+              volume={soundSettings.volume}
+              onSkip={skipRelaxationStep}
+              onStop={stopRelaxation}
+            />
+          </div>
+        )}
         <div className="flex justify-between items-center mb-2">
-          <Button
-            onClick={startCalibration}
-            disabled={isCalibrating}
-            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isCalibrating
-              ? `Calibrating… ${calibrationSecondsLeft}`
-              : "Calibrate (10s)"}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={startCalibration}
+              disabled={isCalibrating}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isCalibrating
+                ? `Calibrating… ${calibrationSecondsLeft}`
+                : `Calibrate (${thresholds.calibrationDurationMs / 1000}s)`}
+            </Button>
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfile={activeProfile}
+              disabled={isCalibrating}
+              onSelect={selectProfile}
+              onCreate={createProfile}
+              onDelete={deleteProfile}
+            />
+          </div>
           <div className="flex items-center gap-4">
             {isPip ? (
               <Button
@@ -452,8 +1304,8 @@ function App() {
                   </TooltipTrigger>
                   <TooltipContent className="max-w-xs">
                     Picture-in-Picture keeps the video feed visible in a
-                    floating window, allowing face tracking to continue even
-                    when you switch to other tabs or apps.
+                    floating window. Tracking continues in background tabs
+                    either way, at the background sampling rate.
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -466,21 +1318,175 @@ function App() {
               />
               <Label htmlFor="alerts">Alerts</Label>
             </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="eye-strain-alerts"
+                checked={isEyeStrainAlertEnabled}
+                onCheckedChange={setIsEyeStrainAlertEnabled}
+              />
+              <Label htmlFor="eye-strain-alerts">Eye-strain alerts</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="break-reminders"
+                checked={isBreakReminderEnabled}
+                onCheckedChange={setIsBreakReminderEnabled}
+              />
+              <Label htmlFor="break-reminders">Break reminders</Label>
+            </div>
           </div>
         </div>
-        <div className={`relative ${isPip ? "hidden" : "block"}`}>
+        <div className="relative">
           <video
             ref={videoRef}
             width={640}
-            height={480}
             playsInline
             muted
-            className={`block ${isPip ? "" : "-scale-x-100"}`}
+            className="block -scale-x-100"
           />
           <canvas
             ref={canvasRef}
-            className={`absolute left-0 top-0 pointer-events-none ${isPip ? "" : "-scale-x-100"}`}
+            className="absolute left-0 top-0 w-full h-full pointer-events-none -scale-x-100"
           />
+          <video ref={pipVideoRef} playsInline muted className="sr-only" />
+        </div>
+        <div className="mt-2 flex flex-col gap-2">
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tension-overlay"
+                checked={isTensionOverlay}
+                onCheckedChange={setIsTensionOverlay}
+              />
+              <Label htmlFor="tension-overlay">Tension overlay</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="overlay-labels"
+                checked={isOverlayLabels}
+                onCheckedChange={setIsOverlayLabels}
+                disabled={!isTensionOverlay}
+              />
+              <Label htmlFor="overlay-labels">Show values</Label>
+            </div>
+          </div>
+          {isTensionOverlay && (
+            <TensionOverlayLegend
+              deviations={
+                latestSignals && overlayNeutral
+                  ? regionDeviations(latestSignals, overlayNeutral, thresholds)
+                  : null
+              }
+            />
+          )}
+        </div>
+        <div className="mt-4">
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+            >
+              {isHistoryOpen ? "Hide history & export" : "History & export"}
+            </Button>
+            <Button
+              onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+            >
+              {isSettingsOpen ? "Hide settings" : "Settings"}
+            </Button>
+          </div>
+          {isSettingsOpen && (
+            <div className="mt-4">
+              <SettingsPanel
+                thresholds={thresholds}
+                onChange={(key, value) => updateThresholds({ [key]: value })}
+                onReset={resetThresholds}
+                preview={
+                  latestSignals && activeProfile?.neutral
+                    ? classify(
+                        latestSignals,
+                        baseline?.neutral ?? activeProfile.neutral,
+                        thresholds,
+                      )
+                    : null
+                }
+              />
+              <div className="mt-6">
+                <CameraSettingsPanel
+                  settings={cameraSettings}
+                  devices={cameraDevices}
+                  activeDeviceId={activeDeviceId}
+                  onChange={updateCameraSettings}
+                  onReset={resetCameraSettings}
+                />
+              </div>
+              <div className="mt-6">
+                <FilterSettingsPanel
+                  settings={filterSettings}
+                  onChange={updateFilterSettings}
+                  onReset={resetFilterSettings}
+                />
+              </div>
+              <div className="mt-6">
+                <LandmarkStylePanel
+                  style={landmarkStyle}
+                  onChange={updateLandmarkStyle}
+                  onReset={resetLandmarkStyle}
+                />
+              </div>
+              <div className="mt-6">
+                <SoundSettingsPanel
+                  settings={soundSettings}
+                  onChange={updateSoundSettings}
+                  onReset={resetSoundSettings}
+                  getAudioContext={getAudioContext}
+                />
+              </div>
+              <div className="mt-6">
+                <AlertPolicyPanel
+                  settings={alertPolicySettings}
+                  onChange={updateAlertPolicy}
+                  onReset={resetAlertPolicy}
+                />
+              </div>
+            </div>
+          )}
+          {isHistoryOpen && (
+            <div className="mt-4 flex flex-col gap-6">
+              <HistoryView episodes={episodes} onClear={clearHistory} />
+              <EyeStrainHistory
+                episodes={eyeStrainEpisodes}
+                onClear={clearEyeStrainHistory}
+              />
+              <PresenceHistory
+                intervals={presenceIntervals}
+                onClear={clearPresenceHistory}
+              />
+              <RelaxationHistory
+                relaxations={relaxations}
+                onClear={clearRelaxations}
+              />
+              <ExportPanel
+                isRecording={isRecording}
+                onRecordingChange={setRecording}
+                sampleIntervalMs={recordIntervalMs}
+                onSampleIntervalChange={changeRecordInterval}
+                frameCount={recordedFrameCount}
+                onClear={clearRecording}
+                onExportJSON={exportJSON}
+                onExportCSV={exportCSV}
+              />
+              <SessionRecorderPanel
+                isRecording={isRecordingLandmarks}
+                onRecordingChange={setRecordingLandmarks}
+                label={recordingLabel}
+                onLabelChange={setRecordingLabel}
+                thresholds={thresholds}
+                filterSettings={filterSettings}
+                neutral={activeProfile?.neutral ?? null}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,58 @@
+import {
+  ALERT_POLICY_LIMITS,
+  type AlertPolicySettings,
+} from "../utils/alertPolicy";
+import { NumberField } from "./NumberField";
+import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+
+type NumericKey = keyof typeof ALERT_POLICY_LIMITS;
+
+export function AlertPolicyPanel({
+  settings,
+  onChange,
+  onReset,
+}: {
+  settings: AlertPolicySettings;
+  onChange: (patch: Partial<AlertPolicySettings>) => void;
+  onReset: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="quiet-hours"
+            checked={settings.quietHoursEnabled}
+            onCheckedChange={(quietHoursEnabled) =>
+              onChange({ quietHoursEnabled })
+            }
+          />
+          <Label htmlFor="quiet-hours">Quiet hours</Label>
+        </div>
+        <Button
+          onClick={onReset}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Reset alert policy
+        </Button>
+      </div>
+
+      <p className="text-muted-foreground">
+        Repeated alerts escalate from a visual cue to a chime to a notification.
+      </p>
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {(Object.keys(ALERT_POLICY_LIMITS) as NumericKey[]).map((key) => (
+          <NumberField
+            key={key}
+            {...ALERT_POLICY_LIMITS[key]}
+            value={settings[key]}
+            onChange={(value) => onChange({ [key]: value })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
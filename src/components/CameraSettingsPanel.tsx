@@ -0,0 +1,100 @@
+import type { CameraDevice } from "../hooks/useCamera";
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  type CameraResolution,
+  type CameraSettings,
+} from "../utils/cameraSettings";
+import { INPUT_CLASS } from "./NumberField";
+import { Button } from "./ui/button";
+
+export function CameraSettingsPanel({
+  settings,
+  devices,
+  activeDeviceId,
+  onChange,
+  onReset,
+}: {
+  settings: CameraSettings;
+  devices: CameraDevice[];
+  activeDeviceId: string | null;
+  onChange: (patch: Partial<CameraSettings>) => void;
+  onReset: () => void;
+}) {
+  const isPreferredMissing =
+    settings.deviceId !== null &&
+    !devices.some((d) => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Camera</span>
+          <select
+            value={settings.deviceId ?? ""}
+            onChange={(e) => onChange({ deviceId: e.target.value || null })}
+            className={`${INPUT_CLASS} max-w-64`}
+          >
+            <option value="">Default camera</option>
+            {devices.map((d) => (
+              <option key={d.deviceId} value={d.deviceId}>
+                {d.label}
+              </option>
+            ))}
+            {isPreferredMissing && (
+              <option value={settings.deviceId ?? ""}>
+                Saved camera (not connected)
+              </option>
+            )}
+          </select>
+        </label>
+        <Button
+          onClick={onReset}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Reset camera
+        </Button>
+      </div>
+
+      {isPreferredMissing && activeDeviceId && (
+        <p className="text-amber-600 dark:text-amber-400">
+          Your saved camera isn't connected, so another one is in use. It will
+          switch back when it's plugged in.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Resolution</span>
+          <select
+            value={settings.resolution}
+            onChange={(e) =>
+              onChange({ resolution: e.target.value as CameraResolution })
+            }
+            className={INPUT_CLASS}
+          >
+            {Object.entries(CAMERA_RESOLUTIONS).map(([key, { label }]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Frame rate</span>
+          <select
+            value={settings.frameRate}
+            onChange={(e) => onChange({ frameRate: Number(e.target.value) })}
+            className={INPUT_CLASS}
+          >
+            {CAMERA_FRAME_RATES.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps} fps
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Button } from "./ui/button";
+
+const SAMPLE_RATES = [
+  { label: "10 Hz", intervalMs: 100 },
+  { label: "5 Hz", intervalMs: 200 },
+  { label: "1 Hz", intervalMs: 1_000 },
+  { label: "Every 10 s", intervalMs: 10_000 },
+];
+
+export function ExportPanel({
+  isRecording,
+  onRecordingChange,
+  sampleIntervalMs,
+  onSampleIntervalChange,
+  frameCount,
+  onClear,
+  onExportJSON,
+  onExportCSV,
+}: {
+  isRecording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  sampleIntervalMs: number;
+  onSampleIntervalChange: (intervalMs: number) => void;
+  frameCount: number;
+  onClear: () => void;
+  onExportJSON: () => void;
+  onExportCSV: () => void;
+}) {
+  const buttonClass =
+    "px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors";
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <p className="text-muted-foreground">Export</p>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="record-signals"
+            checked={isRecording}
+            onCheckedChange={onRecordingChange}
+          />
+          <Label htmlFor="record-signals">Record signals</Label>
+        </div>
+        <select
+          value={sampleIntervalMs}
+          onChange={(e) => onSampleIntervalChange(Number(e.target.value))}
+          aria-label="Sample rate"
+          className="h-9 px-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100"
+        >
+          {SAMPLE_RATES.map((rate) => (
+            <option key={rate.intervalMs} value={rate.intervalMs}>
+              {rate.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground">{frameCount} frames</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button onClick={onExportJSON} className={buttonClass}>
+          Export JSON
+        </Button>
+        <Button onClick={onExportCSV} className={buttonClass}>
+          Export CSV
+        </Button>
+        <Button
+          onClick={onClear}
+          disabled={frameCount === 0}
+          className={buttonClass}
+        >
+          Clear frames
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import type { EyeStrainEpisode } from "../face/blinkMonitor";
+import { dayKey } from "../utils/episodeStats";
+import { Button } from "./ui/button";
+
+type EyeStrainDay = {
+  day: string;
+  count: number;
+  minutes: number;
+  lowestRate: number;
+  alertCount: number;
+};
+
+// Totals per local day, most recent first
+function groupByDay(episodes: EyeStrainEpisode[]): EyeStrainDay[] {
+  const byDay = new Map<string, EyeStrainDay>();
+  for (const e of episodes) {
+    const key = dayKey(e.start);
+    const day = byDay.get(key) ?? {
+      day: key,
+      count: 0,
+      minutes: 0,
+      lowestRate: Infinity,
+      alertCount: 0,
+    };
+    day.count++;
+    day.minutes += e.durationMs / 60_000;
+    day.lowestRate = Math.min(day.lowestRate, e.minRatePerMin);
+    if (e.alertFired) day.alertCount++;
+    byDay.set(key, day);
+  }
+  return [...byDay.values()].sort((a, b) => b.day.localeCompare(a.day));
+}
+
+export function EyeStrainHistory({
+  episodes,
+  onClear,
+}: {
+  episodes: EyeStrainEpisode[];
+  onClear: () => void;
+}) {
+  const days = groupByDay(episodes);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground">Eye strain (low blink rate)</p>
+        {days.length > 0 && (
+          <Button
+            onClick={() => {
+              if (window.confirm("Delete all eye-strain history?")) onClear();
+            }}
+            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+          >
+            Clear eye-strain history
+          </Button>
+        )}
+      </div>
+      {days.length === 0 ? (
+        <p className="text-muted-foreground">
+          No eye-strain episodes recorded yet.
+        </p>
+      ) : (
+        days.slice(0, 14).map((d) => (
+          <p key={d.day}>
+            {d.day}: {d.count} episodes, {d.minutes.toFixed(1)} minutes, lowest{" "}
+            {d.lowestRate.toFixed(0)} blinks/min, {d.alertCount} alerts
+          </p>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import type { Signals } from "../face/computeSignals";
+import {
+  FILTER_KINDS,
+  FILTER_LIMITS,
+  type FilterKind,
+  type FilterSettings,
+} from "../face/signalFilter";
+import { INPUT_CLASS, NumberField } from "./NumberField";
+import { Button } from "./ui/button";
+
+const SIGNAL_LABELS: Record<keyof Signals, string> = {
+  eyeOpenAvg: "Eye openness",
+  leftEyeOpen: "Left eye openness",
+  rightEyeOpen: "Right eye openness",
+  browInnerDist: "Brow inner distance",
+  mouthWidth: "Mouth width",
+  mouthCornerLift: "Mouth corner lift",
+  cheekRaise: "Cheek raise",
+  lipThickness: "Lip thickness",
+  mouthOpen: "Mouth open",
+  jawWidth: "Jaw width",
+  headRotation: "Head rotation",
+  browDown: "Brow down",
+  eyeSquint: "Eye squint",
+  cheekSquint: "Cheek squint",
+  mouthPress: "Mouth press",
+  jawForward: "Jaw forward",
+  mouthSmile: "Mouth smile",
+  headYaw: "Head yaw",
+  headPitch: "Head pitch",
+  headRoll: "Head roll",
+};
+
+export function FilterSettingsPanel({
+  settings,
+  onChange,
+  onReset,
+}: {
+  settings: FilterSettings;
+  onChange: (patch: Partial<FilterSettings>) => void;
+  onReset: () => void;
+}) {
+  function setOverride(key: keyof Signals, value: string) {
+    const overrides = { ...settings.overrides };
+    if (value === "") delete overrides[key];
+    else overrides[key] = value as FilterKind;
+    onChange({ overrides });
+  }
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Signal filter</span>
+          <select
+            value={settings.kind}
+            onChange={(e) => onChange({ kind: e.target.value as FilterKind })}
+            className={INPUT_CLASS}
+          >
+            {Object.entries(FILTER_KINDS).map(([kind, label]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          onClick={onReset}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Reset filtering
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {(Object.keys(FILTER_LIMITS) as (keyof typeof FILTER_LIMITS)[]).map(
+          (key) => (
+            <NumberField
+              key={key}
+              {...FILTER_LIMITS[key]}
+              value={settings[key]}
+              onChange={(value) => onChange({ [key]: value })}
+            />
+          ),
+        )}
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-muted-foreground">
+          Per-signal overrides
+        </summary>
+        <div className="mt-2 grid grid-cols-2 gap-x-6 gap-y-2">
+          {(Object.keys(SIGNAL_LABELS) as (keyof Signals)[]).map((key) => (
+            <label key={key} className="flex items-center justify-between">
+              <span>{SIGNAL_LABELS[key]}</span>
+              <select
+                value={settings.overrides[key] ?? ""}
+                onChange={(e) => setOverride(key, e.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">Default</option>
+                {Object.entries(FILTER_KINDS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import type { TensionEpisode } from "../face/tensionEngine";
+import { dayKey, groupEpisodesByDay } from "../utils/episodeStats";
+import { Button } from "./ui/button";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function HistoryView({
+  episodes,
+  onClear,
+}: {
+  episodes: TensionEpisode[];
+  onClear: () => void;
+}) {
+  const days = groupEpisodesByDay(episodes);
+  const [selectedDay, setSelectedDay] = useState(() => dayKey(Date.now()));
+  const stats = days.find((d) => d.day === selectedDay) ?? days[0];
+
+  if (!stats) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No tension episodes recorded yet.
+      </p>
+    );
+  }
+
+  // Timeline spans the selected local day
+  const [year, month, date] = stats.day.split("-").map(Number);
+  const dayStart = new Date(year, month - 1, date).getTime();
+  const maxPerHour = Math.max(1, ...stats.perHour);
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <select
+          value={stats.day}
+          onChange={(e) => setSelectedDay(e.target.value)}
+          aria-label="Day"
+          className="h-9 px-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100"
+        >
+          {days.map((d) => (
+            <option key={d.day} value={d.day}>
+              {d.day} ({d.count})
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={() => {
+            if (window.confirm("Delete all tension history?")) onClear();
+          }}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Clear history
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <p>
+          Episodes: <span className="font-medium">{stats.count}</span>
+        </p>
+        <p>
+          Tense minutes:{" "}
+          <span className="font-medium">{stats.tenseMinutes.toFixed(1)}</span>
+        </p>
+        <p>
+          Longest:{" "}
+          <span className="font-medium">{formatDuration(stats.longestMs)}</span>
+        </p>
+        <p>
+          Alerts: <span className="font-medium">{stats.alertCount}</span>
+        </p>
+      </div>
+
+      <div>
+        <p className="mb-1 text-muted-foreground">Timeline</p>
+        <div className="relative h-6 rounded bg-zinc-200 dark:bg-zinc-800">
+          {stats.episodes.map((e) => (
+            <div
+              key={e.start}
+              title={`${formatTime(e.start)} · ${formatDuration(e.durationMs)} · ${e.regions.join(", ")}`}
+              className={`absolute top-0 h-full ${e.alertFired ? "bg-red-500" : "bg-amber-500"}`}
+              style={{
+                left: `${((e.start - dayStart) / DAY_MS) * 100}%`,
+                width: `max(2px, ${(e.durationMs / DAY_MS) * 100}%)`,
+              }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>00:00</span>
+          <span>06:00</span>
+          <span>12:00</span>
+          <span>18:00</span>
+          <span>24:00</span>
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-1 text-muted-foreground">Episodes per hour</p>
+        <div className="flex items-end gap-px h-16">
+          {stats.perHour.map((count, hour) => (
+            <div
+              key={hour}
+              title={`${String(hour).padStart(2, "0")}:00 – ${count}`}
+              className="flex-1 bg-zinc-400 dark:bg-zinc-600"
+              style={{ height: `${(count / maxPerHour) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-1 text-muted-foreground">Recent days</p>
+        {days.slice(0, 14).map((d) => (
+          <p key={d.day}>
+            {d.day}: {d.count} episodes, {d.tenseMinutes.toFixed(1)} tense
+            minutes, longest {formatDuration(d.longestMs)}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import {
+  LANDMARK_RENDER_MODES,
+  LANDMARK_STYLE_LIMITS,
+  type LandmarkRenderMode,
+  type LandmarkStyle,
+} from "../face/drawUtils";
+import { INPUT_CLASS, NumberField } from "./NumberField";
+import { Button } from "./ui/button";
+
+export function LandmarkStylePanel({
+  style,
+  onChange,
+  onReset,
+}: {
+  style: LandmarkStyle;
+  onChange: (patch: Partial<LandmarkStyle>) => void;
+  onReset: () => void;
+}) {
+  const showsLines = style.mode === "tessellation" || style.mode === "contours";
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Landmarks</span>
+          <select
+            value={style.mode}
+            onChange={(e) =>
+              onChange({ mode: e.target.value as LandmarkRenderMode })
+            }
+            className={INPUT_CLASS}
+          >
+            {Object.entries(LANDMARK_RENDER_MODES).map(([mode, modeLabel]) => (
+              <option key={mode} value={mode}>
+                {modeLabel}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          onClick={onReset}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Reset landmark style
+        </Button>
+      </div>
+
+      {style.mode !== "none" && (
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">
+              {showsLines ? "Line color" : "Point color"}
+            </span>
+            <input
+              type="color"
+              value={showsLines ? style.lineColor : style.pointColor}
+              onChange={(e) =>
+                onChange(
+                  showsLines
+                    ? { lineColor: e.target.value }
+                    : { pointColor: e.target.value },
+                )
+              }
+              className={`${INPUT_CLASS} w-16`}
+            />
+          </label>
+          <NumberField
+            {...LANDMARK_STYLE_LIMITS.lineWidth}
+            value={style.lineWidth}
+            onChange={(lineWidth) => onChange({ lineWidth })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
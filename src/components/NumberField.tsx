@@ -0,0 +1,63 @@
+import { useState } from "react";
+
+// Shared look of the settings panels' inputs and selects
+export const INPUT_CLASS =
+  "h-9 px-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100";
+
+export function NumberField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  validate,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  validate?: (value: number) => string | null; // defaults to the min–max range
+}) {
+  // Raw input text while editing, so invalid values can be shown and fixed;
+  // dropped on blur, which also shows a reset value again
+  const [draft, setDraft] = useState<string | null>(null);
+
+  function check(value: number) {
+    if (validate) return validate(value);
+    return value >= min && value <= max
+      ? null
+      : `Must be between ${min} and ${max}`;
+  }
+
+  const text = draft ?? String(value);
+  const error = text.trim() === "" ? "Required" : check(Number(text));
+
+  function handleChange(text: string) {
+    setDraft(text);
+    const value = Number(text);
+    if (text.trim() !== "" && check(value) === null) onChange(value);
+  }
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        onBlur={() => setDraft(null)}
+        aria-invalid={error !== null}
+        className={`${INPUT_CLASS} aria-invalid:ring-2 aria-invalid:ring-red-500`}
+      />
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+    </label>
+  );
+}
@@ -0,0 +1,72 @@
+import type { PresenceInterval } from "../face/presenceTracker";
+import { dayKey } from "../utils/episodeStats";
+import { Button } from "./ui/button";
+
+type PresenceDay = {
+  day: string;
+  atDeskMinutes: number;
+  awayMinutes: number;
+  longestStretchMinutes: number;
+};
+
+// Totals per local day, most recent first
+function groupByDay(intervals: PresenceInterval[]): PresenceDay[] {
+  const byDay = new Map<string, PresenceDay>();
+  for (const i of intervals) {
+    const key = dayKey(i.start);
+    const day = byDay.get(key) ?? {
+      day: key,
+      atDeskMinutes: 0,
+      awayMinutes: 0,
+      longestStretchMinutes: 0,
+    };
+    const minutes = i.durationMs / 60_000;
+    if (i.state === "atDesk") {
+      day.atDeskMinutes += minutes;
+      day.longestStretchMinutes = Math.max(day.longestStretchMinutes, minutes);
+    } else {
+      day.awayMinutes += minutes;
+    }
+    byDay.set(key, day);
+  }
+  return [...byDay.values()].sort((a, b) => b.day.localeCompare(a.day));
+}
+
+export function PresenceHistory({
+  intervals,
+  onClear,
+}: {
+  intervals: PresenceInterval[];
+  onClear: () => void;
+}) {
+  const days = groupByDay(intervals);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground">Time at the desk</p>
+        {days.length > 0 && (
+          <Button
+            onClick={() => {
+              if (window.confirm("Delete all presence history?")) onClear();
+            }}
+            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+          >
+            Clear presence history
+          </Button>
+        )}
+      </div>
+      {days.length === 0 ? (
+        <p className="text-muted-foreground">No presence recorded yet.</p>
+      ) : (
+        days.slice(0, 14).map((d) => (
+          <p key={d.day}>
+            {d.day}: {d.atDeskMinutes.toFixed(0)} minutes at the desk, longest
+            stretch {d.longestStretchMinutes.toFixed(0)} minutes,{" "}
+            {d.awayMinutes.toFixed(0)} minutes away
+          </p>
+        ))
+      )}
+    </div>
+  );
+}
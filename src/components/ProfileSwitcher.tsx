@@ -0,0 +1,69 @@
+import { Plus, Trash2 } from "lucide-react";
+import type { CalibrationProfile } from "../hooks/useCalibrationProfiles";
+
+export function ProfileSwitcher({
+  profiles,
+  activeProfile,
+  disabled,
+  onSelect,
+  onCreate,
+  onDelete,
+}: {
+  profiles: CalibrationProfile[];
+  activeProfile: CalibrationProfile | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  function handleCreate() {
+    const name = window.prompt("Profile name (e.g. “glasses on”)")?.trim();
+    if (name) onCreate(name);
+  }
+
+  function handleDelete() {
+    if (!activeProfile) return;
+    if (window.confirm(`Delete profile “${activeProfile.name}”?`)) {
+      onDelete(activeProfile.id);
+    }
+  }
+
+  const buttonClass =
+    "p-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={activeProfile?.id ?? ""}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled || profiles.length === 0}
+        aria-label="Calibration profile"
+        className="h-9 px-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 text-sm disabled:opacity-50"
+      >
+        {profiles.length === 0 && <option value="">No profiles</option>}
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+            {p.neutral ? "" : " (not calibrated)"}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleCreate}
+        disabled={disabled}
+        className={buttonClass}
+        aria-label="New profile"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={disabled || !activeProfile}
+        className={buttonClass}
+        aria-label="Delete profile"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
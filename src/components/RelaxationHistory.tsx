@@ -0,0 +1,69 @@
+import type { RelaxationRecord } from "../face/relaxation";
+import { Button } from "./ui/button";
+
+function formatSeconds(ms: number) {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+export function RelaxationHistory({
+  relaxations,
+  onClear,
+}: {
+  relaxations: RelaxationRecord[];
+  onClear: () => void;
+}) {
+  const completed = relaxations.filter((r) => r.completed).length;
+  const times = relaxations
+    .map((r) => r.timeToBaselineMs)
+    .filter((t): t is number => t !== null)
+    .sort((a, b) => a - b);
+  const medianToBaseline = times.length
+    ? times[Math.floor(times.length / 2)]
+    : null;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground">Guided relaxation</p>
+        {relaxations.length > 0 && (
+          <Button
+            onClick={() => {
+              if (window.confirm("Delete all relaxation history?")) onClear();
+            }}
+            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+          >
+            Clear relaxation history
+          </Button>
+        )}
+      </div>
+      {relaxations.length === 0 ? (
+        <p className="text-muted-foreground">No relaxation sessions yet.</p>
+      ) : (
+        <>
+          <p>
+            {relaxations.length} sessions, {completed} finished · median time
+            back to baseline:{" "}
+            {medianToBaseline !== null ? formatSeconds(medianToBaseline) : "—"}
+          </p>
+          {relaxations
+            .slice(-10)
+            .reverse()
+            .map((r) => (
+              <p key={r.start}>
+                {new Date(r.start).toLocaleString([], {
+                  dateStyle: "short",
+                  timeStyle: "short",
+                })}
+                : {r.completed ? "finished" : "stopped"} (
+                {r.relaxedRegions.length}/{r.regions.length} regions) in{" "}
+                {formatSeconds(r.durationMs)}, baseline{" "}
+                {r.timeToBaselineMs !== null
+                  ? `after ${formatSeconds(r.timeToBaselineMs)}`
+                  : "not reached"}
+              </p>
+            ))}
+        </>
+      )}
+    </div>
+  );
+}
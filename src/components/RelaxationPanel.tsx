@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { RELAXATION_PROMPTS, type RelaxationState } from "../face/relaxation";
+import { playBreathCue, playStepCompleteCue } from "../utils/audio";
+import { Button } from "./ui/button";
+
+const BREATH_IN_MS = 4_000;
+const BREATH_OUT_MS = 6_000;
+
+export function RelaxationPanel({
+  state,
+  startedAt,
+  getAudioContext,
+  volume,
+  onSkip,
+  onStop,
+}: {
+  state: RelaxationState;
+  startedAt: number; // epoch ms, anchors the breathing pacer
+  getAudioContext: () => AudioContext;
+  volume: number; // percent
+  onSkip: () => void;
+  onStop: () => void;
+}) {
+  // The pacer runs on its own clock so it keeps going without a face
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(id);
+  }, []);
+
+  const elapsed = Math.max(0, now - startedAt) % (BREATH_IN_MS + BREATH_OUT_MS);
+  const phase = elapsed < BREATH_IN_MS ? "in" : "out";
+  const breath =
+    phase === "in"
+      ? elapsed / BREATH_IN_MS
+      : 1 - (elapsed - BREATH_IN_MS) / BREATH_OUT_MS;
+
+  useEffect(() => {
+    playBreathCue(getAudioContext(), phase, volume / 100);
+  }, [phase, getAudioContext, volume]);
+
+  const relaxedCount = state.relaxedRegions.length;
+  useEffect(() => {
+    if (relaxedCount > 0) {
+      playStepCompleteCue(getAudioContext(), volume / 100);
+    }
+  }, [relaxedCount, getAudioContext, volume]);
+
+  return (
+    <div className="flex items-center gap-6 p-4 rounded-lg bg-zinc-100 dark:bg-zinc-900 text-sm">
+      <div className="flex flex-col items-center gap-2 w-32">
+        <div className="flex items-center justify-center size-24">
+          <div
+            className="rounded-full bg-sky-400/60 dark:bg-sky-500/50 size-24 transition-transform duration-100 ease-linear"
+            style={{ transform: `scale(${0.5 + 0.5 * breath})` }}
+          />
+        </div>
+        <span className="text-muted-foreground">
+          {phase === "in" ? "Breathe in…" : "Breathe out…"}
+        </span>
+      </div>
+
+      <div className="flex flex-col gap-2 flex-1">
+        <p className="text-lg font-medium">{state.prompt}</p>
+        {state.region && state.tenseRegions.includes(state.region) && (
+          <p className="text-muted-foreground">
+            Still some tension here – take your time
+          </p>
+        )}
+        {state.region && (
+          <div className="h-1.5 rounded bg-zinc-200 dark:bg-zinc-800">
+            <div
+              className="h-full rounded bg-green-500"
+              style={{ width: `${state.holdProgress * 100}%` }}
+            />
+          </div>
+        )}
+        <ul className="flex gap-3">
+          {state.regions.map((region, i) => (
+            <li
+              key={region}
+              className={
+                state.relaxedRegions.includes(region)
+                  ? "text-green-600 dark:text-green-400"
+                  : i === state.step
+                    ? "font-medium"
+                    : "text-muted-foreground"
+              }
+            >
+              {state.relaxedRegions.includes(region) ? "✓ " : ""}
+              {RELAXATION_PROMPTS[region]}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          {state.region && (
+            <Button
+              onClick={onSkip}
+              className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+            >
+              Skip step
+            </Button>
+          )}
+          <Button
+            onClick={onStop}
+            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+          >
+            Stop
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import type { Signals } from "../face/computeSignals";
+import type { Thresholds } from "../face/thresholds";
+import type { FilterSettings } from "../face/signalFilter";
+import { parseRecording } from "../face/sessionRecording";
+import { replayRecording, type ReplayResult } from "../face/replay";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+
+export function SessionRecorderPanel({
+  isRecording,
+  onRecordingChange,
+  label,
+  onLabelChange,
+  thresholds,
+  filterSettings,
+  neutral,
+}: {
+  isRecording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  label: string;
+  onLabelChange: (label: string) => void;
+  thresholds: Thresholds;
+  filterSettings: FilterSettings;
+  neutral: Signals | null;
+}) {
+  const [useCurrentSettings, setUseCurrentSettings] = useState(false);
+  const [replay, setReplay] = useState<{
+    name: string;
+    label: string;
+    result: ReplayResult;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File) {
+    try {
+      const recording = parseRecording(await file.text());
+      const result = replayRecording(
+        recording,
+        useCurrentSettings ? { thresholds, filterSettings, neutral } : {},
+      );
+      setReplay({ name: file.name, label: recording.label, result });
+      setError(null);
+    } catch (err) {
+      setReplay(null);
+      setError(err instanceof Error ? err.message : "Failed to replay file");
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <p className="text-muted-foreground">Landmark sessions</p>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="record-landmarks"
+            checked={isRecording}
+            onCheckedChange={onRecordingChange}
+          />
+          <Label htmlFor="record-landmarks">Record landmarks</Label>
+        </div>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => onLabelChange(e.target.value)}
+          disabled={isRecording}
+          placeholder="Label (e.g. smiling)"
+          aria-label="Recording label"
+          className="h-9 px-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 disabled:opacity-50"
+        />
+      </div>
+
+      <div className="flex items-center gap-4">
+        <input
+          type="file"
+          accept="application/json,.json"
+          aria-label="Replay recording"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id="replay-current-settings"
+            checked={useCurrentSettings}
+            onCheckedChange={setUseCurrentSettings}
+          />
+          <Label htmlFor="replay-current-settings">
+            Use current thresholds, filtering and baseline
+          </Label>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      {replay && (
+        <div>
+          <p className="font-medium">
+            {replay.name}
+            {replay.label && ` (${replay.label})`}
+          </p>
+          <p>
+            {replay.result.frames.length} frames, {replay.result.faceFrames}{" "}
+            with a face
+          </p>
+          <p>
+            Smiling: {replay.result.smileFrames} · Talking:{" "}
+            {replay.result.talkingFrames} · Head turned:{" "}
+            {replay.result.headTurnedFrames} · Tense:{" "}
+            {replay.result.tenseFrames}
+          </p>
+          <p>
+            Episodes: {replay.result.episodes.length} · Alerts:{" "}
+            {replay.result.alertCount}
+          </p>
+          {!replay.result.neutral && (
+            <p className="text-amber-600 dark:text-amber-400">
+              No baseline: the clip has no usable calibration frames.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
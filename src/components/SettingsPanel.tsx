@@ -0,0 +1,60 @@
+import {
+  THRESHOLD_LIMITS,
+  validateThreshold,
+  type Thresholds,
+} from "../face/thresholds";
+import type { Classification } from "../face/classify";
+import { NumberField } from "./NumberField";
+import { Button } from "./ui/button";
+
+function describe(preview: Classification) {
+  if (preview.isHeadTurned) return "🔄 Head turned – detection paused";
+  if (preview.isTalking) return "🗣️ Talking – detection paused";
+  if (preview.isSmiling)
+    return `😊 Smiling (${(preview.smileScore * 100).toFixed(0)}%) – no tension alert`;
+  if (preview.isTense) return `😣 Tense (${preview.regions.join(", ")})`;
+  return "😐 Neutral";
+}
+
+export function SettingsPanel({
+  thresholds,
+  onChange,
+  onReset,
+  preview,
+}: {
+  thresholds: Thresholds;
+  onChange: (key: keyof Thresholds, value: number) => void;
+  onReset: () => void;
+  preview: Classification | null; // current face under these thresholds
+}) {
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <p>
+          Preview:{" "}
+          <span className="font-medium">
+            {preview ? describe(preview) : "Calibrate to preview"}
+          </span>
+        </p>
+        <Button
+          onClick={onReset}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors"
+        >
+          Reset to defaults
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {(Object.keys(THRESHOLD_LIMITS) as (keyof Thresholds)[]).map((key) => (
+          <NumberField
+            key={key}
+            {...THRESHOLD_LIMITS[key]}
+            value={thresholds[key]}
+            onChange={(value) => onChange(key, value)}
+            validate={(value) => validateThreshold(key, value)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
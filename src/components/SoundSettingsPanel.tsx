@@ -0,0 +1,171 @@
+import { useState } from "react";
+import {
+  ALERT_SOUND_TYPES,
+  checkCustomSound,
+  deleteCustomSoundFile,
+  MAX_CUSTOM_SOUND_BYTES,
+  playSound,
+  saveCustomSoundFile,
+  SOUND_LIMITS,
+  SOUNDS,
+  type AlertSoundType,
+  type SoundId,
+  type SoundSettings,
+} from "../utils/audio";
+import { INPUT_CLASS } from "./NumberField";
+import { Button } from "./ui/button";
+
+const BUTTON_CLASS =
+  "px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors";
+
+function readAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function SoundSettingsPanel({
+  settings,
+  onChange,
+  onReset,
+  getAudioContext,
+}: {
+  settings: SoundSettings;
+  onChange: (patch: Partial<SoundSettings>) => void;
+  onReset: () => void;
+  getAudioContext: () => AudioContext;
+}) {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const { label, min, max, step } = SOUND_LIMITS.volume;
+
+  async function handleFile(file: File | undefined) {
+    setFileError(null);
+    if (!file) return;
+    if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+      setFileError(
+        `File is too large (max ${MAX_CUSTOM_SOUND_BYTES / 1_000_000} MB)`,
+      );
+      return;
+    }
+    let dataUrl: string;
+    try {
+      dataUrl = await readAsDataURL(file);
+      await checkCustomSound(getAudioContext(), dataUrl);
+    } catch {
+      setFileError("This file can't be played by your browser");
+      return;
+    }
+    if (!saveCustomSoundFile(dataUrl)) {
+      setFileError("Not enough browser storage left for this file");
+      return;
+    }
+    onChange({ customSound: { name: file.name } });
+  }
+
+  function removeCustomSound() {
+    deleteCustomSoundFile();
+    // Alerts that used the file go back to their defaults on sanitize
+    onChange({ customSound: null });
+  }
+
+  function setSound(type: AlertSoundType, id: SoundId) {
+    onChange({ sounds: { ...settings.sounds, [type]: id } });
+  }
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={settings.volume}
+            onChange={(e) => onChange({ volume: Number(e.target.value) })}
+          />
+          <span className="tabular-nums w-10">{settings.volume}%</span>
+        </label>
+        <Button
+          onClick={() => {
+            setFileError(null);
+            deleteCustomSoundFile();
+            onReset();
+          }}
+          className={BUTTON_CLASS}
+        >
+          Reset sounds
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-4 gap-y-2">
+        {(Object.keys(ALERT_SOUND_TYPES) as AlertSoundType[]).map((type) => (
+          <div key={type} className="contents">
+            <span className="text-muted-foreground">
+              {ALERT_SOUND_TYPES[type]}
+            </span>
+            <select
+              value={settings.sounds[type]}
+              onChange={(e) => setSound(type, e.target.value as SoundId)}
+              className={INPUT_CLASS}
+            >
+              {(Object.keys(SOUNDS) as SoundId[])
+                .filter((id) => id !== "custom" || settings.customSound)
+                .map((id) => (
+                  <option key={id} value={id}>
+                    {SOUNDS[id]}
+                  </option>
+                ))}
+            </select>
+            <Button
+              onClick={() =>
+                playSound(
+                  getAudioContext(),
+                  settings.sounds[type],
+                  settings.volume,
+                  settings.customSound,
+                )
+              }
+              disabled={settings.sounds[type] === "none"}
+              className={`${BUTTON_CLASS} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              Preview
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-muted-foreground">
+          Your audio file (stays on this device)
+        </span>
+        {settings.customSound ? (
+          <div className="flex items-center gap-2">
+            <span className="truncate">{settings.customSound.name}</span>
+            <Button onClick={removeCustomSound} className={BUTTON_CLASS}>
+              Remove
+            </Button>
+          </div>
+        ) : (
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        )}
+        {fileError && (
+          <span className="text-xs text-red-600 dark:text-red-400">
+            {fileError}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
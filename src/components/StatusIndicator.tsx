@@ -1,18 +1,50 @@
+import type { QualityLevel } from "../face/inputQuality";
+
+const QUALITY_BADGE: Record<
+  QualityLevel,
+  { label: string; className: string }
+> = {
+  good: {
+    label: "Input: good",
+    className: "bg-green-500/15 text-green-700 dark:text-green-400",
+  },
+  fair: {
+    label: "Input: fair",
+    className: "bg-yellow-500/15 text-yellow-700 dark:text-yellow-400",
+  },
+  poor: {
+    label: "Input: poor",
+    className: "bg-red-500/15 text-red-700 dark:text-red-400",
+  },
+};
+
 export function StatusIndicator({
   status,
+  quality,
 }: {
   status: { type: "error" | "loading" | "ready"; message: string };
+  quality?: { level: QualityLevel; issues: string[] } | null;
 }) {
   const dotColor = {
     error: "bg-red-500",
     loading: "bg-yellow-500",
     ready: "bg-green-500",
   }[status.type];
+  const badge = quality && QUALITY_BADGE[quality.level];
 
   return (
     <p className="flex items-center gap-2 mb-4">
       <span className={`w-2 h-2 rounded-full ${dotColor}`} />
       <span className="text-muted-foreground">{status.message}</span>
+      {quality && badge && (
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}
+          title={quality.issues.join(", ") || undefined}
+        >
+          {badge.label}
+          {quality.issues.length > 0 && ` – ${quality.issues.join(", ")}`}
+        </span>
+      )}
     </p>
   );
 }
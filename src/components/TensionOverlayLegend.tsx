@@ -0,0 +1,46 @@
+import { deviationColor } from "../face/drawUtils";
+import {
+  OVERLAY_REGIONS,
+  type RegionDeviations,
+} from "../face/regionDeviation";
+
+export function TensionOverlayLegend({
+  deviations,
+}: {
+  deviations: RegionDeviations | null;
+}) {
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Baseline</span>
+        <div
+          className="h-2 flex-1 rounded"
+          style={{
+            background: `linear-gradient(to right, ${deviationColor(0)}, ${deviationColor(0.5)}, ${deviationColor(1)})`,
+          }}
+        />
+        <span className="text-muted-foreground">Tense threshold</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {OVERLAY_REGIONS.map((region) => (
+          <span key={region} className="flex items-center gap-1.5">
+            <span
+              className="size-2.5 rounded-full"
+              style={{
+                background: deviations
+                  ? deviationColor(deviations[region])
+                  : "gray",
+              }}
+            />
+            {region}
+            {deviations && (
+              <span className="tabular-nums text-muted-foreground">
+                {Math.round(deviations[region] * 100)}%
+              </span>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
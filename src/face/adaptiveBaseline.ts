@@ -0,0 +1,34 @@
+import type { Signals } from "./computeSignals";
+
+// Ratios the tension checks compare against the baseline
+const DRIFT_SIGNALS: (keyof Signals)[] = [
+  "eyeOpenAvg",
+  "browInnerDist",
+  "mouthWidth",
+  "lipThickness",
+  "jawWidth",
+  "cheekRaise",
+];
+
+// Largest relative change of any tension ratio, e.g. 0.1 = 10% drift
+export function baselineDrift(original: Signals, current: Signals): number {
+  let drift = 0;
+  for (const key of DRIFT_SIGNALS) {
+    if (original[key] === 0) continue;
+    drift = Math.max(drift, Math.abs(current[key] / original[key] - 1));
+  }
+  return drift;
+}
+
+// Moves every signal of the baseline `weight` (0..1) of the way to `signals`
+export function blendBaseline(
+  neutral: Signals,
+  signals: Signals,
+  weight: number,
+): Signals {
+  const blended = { ...neutral };
+  for (const key of Object.keys(blended) as (keyof Signals)[]) {
+    blended[key] = neutral[key] + (signals[key] - neutral[key]) * weight;
+  }
+  return blended;
+}
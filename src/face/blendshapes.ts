@@ -0,0 +1,59 @@
+// MediaPipe blendshape categories (ARKit-style names, scores 0..1)
+// Full list: https://storage.googleapis.com/mediapipe-assets/Model%20Card%20Blendshape%20V2.pdf
+export type Blendshape = { categoryName: string; score: number };
+
+// calibrated expression scores, averaged across left/right where the model splits them
+export type BlendshapeSignals = {
+  browDown: number; // higher when furrowing/lowering brows
+  eyeSquint: number; // higher when squinting
+  cheekSquint: number; // higher when cheeks push up (smiling, squinting)
+  mouthPress: number; // higher when lips press together
+  jawForward: number; // higher when jaw juts forward
+  mouthSmile: number; // higher when smiling
+};
+
+export const EMPTY_BLENDSHAPE_SIGNALS: BlendshapeSignals = {
+  browDown: 0,
+  eyeSquint: 0,
+  cheekSquint: 0,
+  mouthPress: 0,
+  jawForward: 0,
+  mouthSmile: 0,
+};
+
+// Categories computeBlendshapeSignals reads
+export const SIGNAL_BLENDSHAPES = [
+  "browDownLeft",
+  "browDownRight",
+  "eyeSquintLeft",
+  "eyeSquintRight",
+  "cheekSquintLeft",
+  "cheekSquintRight",
+  "mouthPressLeft",
+  "mouthPressRight",
+  "jawForward",
+  "mouthSmileLeft",
+  "mouthSmileRight",
+];
+
+export function computeBlendshapeSignals(
+  categories: Blendshape[] | undefined,
+): BlendshapeSignals {
+  if (!categories?.length) return { ...EMPTY_BLENDSHAPE_SIGNALS };
+
+  const scores = new Map<string, number>();
+  for (const c of categories) scores.set(c.categoryName, c.score);
+
+  const score = (name: string) => scores.get(name) ?? 0;
+  const pair = (name: string) =>
+    (score(`${name}Left`) + score(`${name}Right`)) / 2;
+
+  return {
+    browDown: pair("browDown"),
+    eyeSquint: pair("eyeSquint"),
+    cheekSquint: pair("cheekSquint"),
+    mouthPress: pair("mouthPress"),
+    jawForward: score("jawForward"),
+    mouthSmile: pair("mouthSmile"),
+  };
+}
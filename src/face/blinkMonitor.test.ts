@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  BlinkMonitor,
+  type BlinkMonitorEvents,
+  type BlinkStats,
+} from "./blinkMonitor";
+import type { Signals } from "./computeSignals";
+import { DEFAULT_THRESHOLDS } from "./thresholds";
+
+const OPEN = 0.06;
+const CLOSED = 0.01;
+const BLINK_MS = 200;
+
+function eyes(openness: number) {
+  return { leftEyeOpen: openness, rightEyeOpen: openness } as Signals;
+}
+
+// Frames every `frameMs` over [from, to), dropping every `dropEvery`th one
+// (detection still busy), with a blink every `blinkEveryMs`
+function feed(
+  monitor: BlinkMonitor,
+  from: number,
+  to: number,
+  {
+    frameMs,
+    blinkEveryMs,
+    dropEvery = 0,
+  }: {
+    frameMs: number;
+    blinkEveryMs: number;
+    dropEvery?: number;
+  },
+) {
+  for (let t = from, i = 0; t < to; t += frameMs, i++) {
+    if (dropEvery && i % dropEvery === dropEvery - 1) continue;
+    const isBlinking = (t - from) % blinkEveryMs < BLINK_MS;
+    monitor.process(eyes(isBlinking ? CLOSED : OPEN), t);
+  }
+}
+
+function collect<K extends keyof BlinkMonitorEvents>(
+  monitor: BlinkMonitor,
+  type: K,
+): BlinkMonitorEvents[K][] {
+  const events: BlinkMonitorEvents[K][] = [];
+  monitor.on(type, (event) => events.push(event));
+  return events;
+}
+
+describe("BlinkMonitor", () => {
+  it("fills the rate window at 8fps with dropped frames", () => {
+    const monitor = new BlinkMonitor(DEFAULT_THRESHOLDS);
+    const stats = collect(monitor, "stats");
+
+    feed(monitor, 0, 70_000, {
+      frameMs: 125,
+      blinkEveryMs: 4_000,
+      dropEvery: 7,
+    });
+
+    const last = stats.at(-1) as BlinkStats;
+    expect(last.isWindowFull).toBe(true);
+    expect(last.ratePerMin).toBeCloseTo(15, 0);
+  });
+
+  it("alerts on a low blink rate at 8fps", () => {
+    const monitor = new BlinkMonitor(DEFAULT_THRESHOLDS);
+    const alerts = collect(monitor, "eyeStrainAlertDue");
+
+    // 4 blinks a minute, under the default minimum of 8
+    feed(monitor, 0, 300_000, {
+      frameMs: 125,
+      blinkEveryMs: 15_000,
+      dropEvery: 7,
+    });
+
+    expect(alerts.length).toBeGreaterThan(0);
+    expect(alerts[0].ratePerMin).toBeCloseTo(4, 0);
+  });
+
+  it("doesn't measure a rate from frames too far apart to see blinks", () => {
+    const monitor = new BlinkMonitor(DEFAULT_THRESHOLDS);
+    const stats = collect(monitor, "stats");
+    const alerts = collect(monitor, "eyeStrainAlertDue");
+
+    // A hidden tab sampling twice a second
+    feed(monitor, 0, 300_000, { frameMs: 500, blinkEveryMs: 4_000 });
+
+    expect(stats.every((s) => !s.isWindowFull)).toBe(true);
+    expect(alerts).toHaveLength(0);
+  });
+});
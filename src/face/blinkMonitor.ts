@@ -0,0 +1,295 @@
+import type { Signals } from "./computeSignals";
+import type { Thresholds } from "./thresholds";
+import { EventEmitter } from "./eventEmitter";
+
+// Openness as a share of the eye's running open level
+const CLOSING_RATIO = 0.6; // below: a blink has started
+const REOPENED_RATIO = 0.8; // above: the blink is over
+const COMPLETE_RATIO = 0.3; // the lid has to get this low for a full blink
+const OPEN_LEVEL_ALPHA = 0.05; // per frame, while the eye is open
+const MIN_BLINK_MS = 40;
+const MAX_BLINK_MS = 800; // longer closures are deliberate, not blinks
+const RATE_WINDOW_MS = 60_000;
+const FACE_GAP_MS = 2_000; // a longer gap with no frames restarts the window
+// Blinks last 100-300 ms, so at a typical detection interval longer than this
+// (a slow camera, a hidden tab) they get missed and nothing counts as observed
+const MAX_FRAME_INTERVAL_MS = 200;
+// Otherwise a gap of up to this many typical intervals (a frame or two dropped
+// while detection was busy) still counts; longer gaps are left out of the rate
+const COUNTED_GAP_FACTOR = 2.5;
+const FRAME_INTERVAL_ALPHA = 0.1; // per frame
+const MIN_OBSERVED_SHARE = 0.9; // of the window, for the rate to count
+const STATS_INTERVAL_MS = 1_000;
+
+export type Eye = "left" | "right";
+export type BlinkKind = "complete" | "incomplete";
+
+export type BlinkEvent = {
+  time: number; // epoch ms, when the first eye started closing
+  durationMs: number;
+  left: BlinkKind | null; // null when this eye didn't blink
+  right: BlinkKind | null;
+};
+
+export type BlinkStats = {
+  ratePerMin: number; // blinks of either eye
+  leftRatePerMin: number;
+  rightRatePerMin: number;
+  incompleteShare: number; // 0..1, blinks where an eye didn't fully close
+  isWindowFull: boolean; // the last minute was (nearly) all observed at a
+  // frame rate that sees blinks, so the rate is meaningful and can alert
+};
+
+export type EyeStrainEpisode = {
+  start: number; // epoch ms
+  end: number; // epoch ms
+  durationMs: number;
+  minRatePerMin: number;
+  alertFired: boolean;
+};
+
+export type BlinkMonitorEvents = {
+  blink: { event: BlinkEvent };
+  stats: BlinkStats;
+  eyeStrainStart: { time: number; ratePerMin: number };
+  eyeStrainEnd: { episode: EyeStrainEpisode };
+  eyeStrainAlertDue: { time: number; ratePerMin: number };
+};
+
+type EyeState = {
+  openLevel: number | null;
+  closingSince: number | null;
+  minRatio: number;
+};
+
+type PendingBlink = {
+  start: number;
+  left: BlinkKind | null;
+  right: BlinkKind | null;
+};
+
+type StrainEpisode = {
+  start: number;
+  lowSince: number; // restarts after each alert
+  minRatePerMin: number;
+  alertFired: boolean;
+};
+
+/**
+ * Blink detection per eye, blink rate over the last minute, and eye-strain
+ * episodes when the rate stays below `thresholds.minBlinkRate`.
+ * Feed it raw (unfiltered) `Signals`, since smoothing hides blinks.
+ */
+export class BlinkMonitor extends EventEmitter<BlinkMonitorEvents> {
+  private thresholds: Thresholds;
+  private eyes: Record<Eye, EyeState> = {
+    left: { openLevel: null, closingSince: null, minRatio: 1 },
+    right: { openLevel: null, closingSince: null, minRatio: 1 },
+  };
+  private pending: PendingBlink | null = null;
+  private blinks: BlinkEvent[] = [];
+  private windowStart: number | null = null;
+  private skipped: { start: number; end: number }[] = []; // uncounted gaps
+  private lastFrameTime = -Infinity;
+  private frameIntervalMs: number | null = null; // smoothed detection interval
+  private lastStatsTime = -Infinity;
+  private strain: StrainEpisode | null = null;
+
+  constructor(thresholds: Thresholds) {
+    super();
+    this.thresholds = thresholds;
+  }
+
+  setThresholds(thresholds: Thresholds) {
+    this.thresholds = thresholds;
+  }
+
+  // The caller actually alerted the user for the current episode
+  markAlertFired() {
+    if (this.strain) this.strain.alertFired = true;
+  }
+
+  // Ends any open eye-strain episode and starts a fresh rate window
+  reset(now: number) {
+    this.endStrain(now);
+    this.blinks = [];
+    this.pending = null;
+    this.windowStart = null;
+    this.skipped = [];
+    for (const eye of Object.values(this.eyes)) eye.closingSince = null;
+  }
+
+  process(signals: Signals, now: number) {
+    const gapMs = now - this.lastFrameTime;
+    if (gapMs > FACE_GAP_MS) {
+      this.reset(this.lastFrameTime);
+    } else {
+      // Judged against the interval before this gap, then folded into it
+      if (gapMs > this.maxCountedGapMs()) {
+        this.skipGap(this.lastFrameTime, now);
+      }
+      const interval = this.frameIntervalMs ?? gapMs;
+      this.frameIntervalMs =
+        interval + (gapMs - interval) * FRAME_INTERVAL_ALPHA;
+    }
+    this.lastFrameTime = now;
+    this.windowStart ??= now;
+
+    this.updateEye("left", signals.leftEyeOpen, now);
+    this.updateEye("right", signals.rightEyeOpen, now);
+    this.finishPendingBlink(now);
+
+    while (this.blinks.length && now - this.blinks[0].time > RATE_WINDOW_MS) {
+      this.blinks.shift();
+    }
+    while (this.skipped.length && now - this.skipped[0].end > RATE_WINDOW_MS) {
+      this.skipped.shift();
+    }
+
+    if (now - this.lastStatsTime >= STATS_INTERVAL_MS) {
+      this.lastStatsTime = now;
+      const stats = this.computeStats(now);
+      this.emit("stats", stats);
+      if (stats.isWindowFull) this.updateStrain(stats.ratePerMin, now);
+    }
+  }
+
+  // Scaled to the measured detection interval, so dropped frames on a slower
+  // machine or at a low camera frame rate don't leave the window unfilled
+  private maxCountedGapMs() {
+    const interval = this.frameIntervalMs;
+    if (interval === null) return MAX_FRAME_INTERVAL_MS;
+    if (interval > MAX_FRAME_INTERVAL_MS) return 0;
+    return Math.max(MAX_FRAME_INTERVAL_MS, interval * COUNTED_GAP_FACTOR);
+  }
+
+  // A blink may have fallen in the gap: drop any half-seen one, and keep the
+  // gap out of the observed time and the eye-strain alert timer
+  private skipGap(start: number, end: number) {
+    this.skipped.push({ start, end });
+    this.pending = null;
+    for (const eye of Object.values(this.eyes)) eye.closingSince = null;
+    if (this.strain) this.strain.lowSince += end - start;
+  }
+
+  private updateEye(eye: Eye, openness: number, now: number) {
+    const state = this.eyes[eye];
+    if (state.openLevel === null) {
+      state.openLevel = openness;
+      return;
+    }
+
+    const ratio = openness / state.openLevel;
+
+    if (state.closingSince === null) {
+      if (ratio < CLOSING_RATIO) {
+        state.closingSince = now;
+        state.minRatio = ratio;
+        this.pending ??= { start: now, left: null, right: null };
+      } else if (ratio > REOPENED_RATIO) {
+        state.openLevel += (openness - state.openLevel) * OPEN_LEVEL_ALPHA;
+      }
+      return;
+    }
+
+    state.minRatio = Math.min(state.minRatio, ratio);
+    if (ratio <= REOPENED_RATIO) return;
+
+    const durationMs = now - state.closingSince;
+    state.closingSince = null;
+    if (
+      this.pending &&
+      durationMs >= MIN_BLINK_MS &&
+      durationMs <= MAX_BLINK_MS
+    ) {
+      this.pending[eye] =
+        state.minRatio < COMPLETE_RATIO ? "complete" : "incomplete";
+    }
+  }
+
+  // A blink is over once neither eye is still closed
+  private finishPendingBlink(now: number) {
+    const pending = this.pending;
+    if (!pending) return;
+    if (this.eyes.left.closingSince !== null) return;
+    if (this.eyes.right.closingSince !== null) return;
+
+    this.pending = null;
+    if (!pending.left && !pending.right) return; // too short or too long
+
+    const event: BlinkEvent = {
+      time: pending.start,
+      durationMs: now - pending.start,
+      left: pending.left,
+      right: pending.right,
+    };
+    this.blinks.push(event);
+    this.emit("blink", { event });
+  }
+
+  private computeStats(now: number): BlinkStats {
+    const windowStart = Math.max(this.windowStart ?? now, now - RATE_WINDOW_MS);
+    const skippedMs = this.skipped.reduce(
+      (sum, gap) =>
+        sum + Math.max(0, gap.end - Math.max(gap.start, windowStart)),
+      0,
+    );
+    const observedMs = now - windowStart - skippedMs;
+    const perMin = (count: number) =>
+      observedMs > 0 ? (count * 60_000) / observedMs : 0;
+    const incomplete = this.blinks.filter(
+      (b) => b.left === "incomplete" || b.right === "incomplete",
+    ).length;
+
+    return {
+      ratePerMin: perMin(this.blinks.length),
+      leftRatePerMin: perMin(this.blinks.filter((b) => b.left).length),
+      rightRatePerMin: perMin(this.blinks.filter((b) => b.right).length),
+      incompleteShare:
+        this.blinks.length > 0 ? incomplete / this.blinks.length : 0,
+      isWindowFull:
+        now - (this.windowStart ?? now) >= RATE_WINDOW_MS &&
+        observedMs >= RATE_WINDOW_MS * MIN_OBSERVED_SHARE,
+    };
+  }
+
+  private updateStrain(ratePerMin: number, now: number) {
+    if (ratePerMin >= this.thresholds.minBlinkRate) {
+      this.endStrain(now);
+      return;
+    }
+
+    if (!this.strain) {
+      this.strain = {
+        start: now,
+        lowSince: now,
+        minRatePerMin: ratePerMin,
+        alertFired: false,
+      };
+      this.emit("eyeStrainStart", { time: now, ratePerMin });
+      return;
+    }
+
+    this.strain.minRatePerMin = Math.min(this.strain.minRatePerMin, ratePerMin);
+    if (now - this.strain.lowSince >= this.thresholds.eyeStrainAlertMs) {
+      this.strain.lowSince = now;
+      this.emit("eyeStrainAlertDue", { time: now, ratePerMin });
+    }
+  }
+
+  private endStrain(now: number) {
+    const strain = this.strain;
+    if (!strain) return;
+    this.strain = null;
+
+    this.emit("eyeStrainEnd", {
+      episode: {
+        start: strain.start,
+        end: now,
+        durationMs: now - strain.start,
+        minRatePerMin: strain.minRatePerMin,
+        alertFired: strain.alertFired,
+      },
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import type { Signals } from "./computeSignals";
+import type { Thresholds } from "./thresholds";
+
+export type TensionRegion = "eyes" | "brows" | "lips" | "jaw";
+
+export const TENSION_REGIONS: TensionRegion[] = [
+  "eyes",
+  "brows",
+  "lips",
+  "jaw",
+];
+
+export type Classification = {
+  isHeadTurned: boolean;
+  isSmiling: boolean;
+  smileScore: number; // 0..1
+  isTalking: boolean;
+  regions: TensionRegion[]; // regions past their thresholds
+  isTense: boolean; // any region tense and not smiling, talking or turned away
+};
+
+// Frame context the stateless checks can't see on their own
+export type ClassifyContext = {
+  activeRegions?: readonly TensionRegion[]; // tense last frame (hysteresis)
+  isTalking?: boolean; // from the windowed talking detector
+};
+
+// Pose relative to the reference (calibrated) pose, or to facing forward
+export function exceedsHeadPose(
+  signals: Signals,
+  thresholds: Thresholds,
+  reference: Signals | null,
+) {
+  return (
+    Math.abs(signals.headYaw - (reference?.headYaw ?? 0)) >
+      thresholds.maxYawDeg ||
+    Math.abs(signals.headPitch - (reference?.headPitch ?? 0)) >
+      thresholds.maxPitchDeg ||
+    Math.abs(signals.headRoll - (reference?.headRoll ?? 0)) >
+      thresholds.maxRollDeg
+  );
+}
+
+export function detectSmile(
+  signals: Signals,
+  neutral: Signals,
+  thresholds: Thresholds,
+): { isSmiling: boolean; score: number } {
+  const mouthWidthRatio = signals.mouthWidth / neutral.mouthWidth;
+  const mouthWidthScore = Math.max(0, (mouthWidthRatio - 1) * 10);
+
+  const cornerLiftDelta = signals.mouthCornerLift - neutral.mouthCornerLift;
+  const cornerLiftScore = Math.max(0, cornerLiftDelta * 100);
+
+  const cheekRaiseRatio = signals.cheekRaise / neutral.cheekRaise;
+  const cheekRaiseScore = Math.max(0, (1 - cheekRaiseRatio) * 10);
+
+  const landmarkScore =
+    mouthWidthScore * 0.4 + cornerLiftScore * 0.35 + cheekRaiseScore * 0.25;
+
+  // The model's smile score is already calibrated, so trust it on its own
+  const smileDelta = signals.mouthSmile - neutral.mouthSmile;
+  const blendshapeScore = Math.max(
+    0,
+    smileDelta / thresholds.smileBlendshapeDelta,
+  );
+
+  const score = Math.max(landmarkScore, blendshapeScore);
+
+  // Require at least 2 of 4 indicators for robustness
+  const indicators = [
+    smileDelta > thresholds.smileBlendshapeDelta,
+    mouthWidthRatio > thresholds.smileMouthWidth,
+    cornerLiftDelta >
+      (neutral.mouthCornerLift * (thresholds.smileCornerLift - 1) || 0.002),
+    cheekRaiseRatio < thresholds.smileCheekRaise,
+  ];
+  const isSmiling = score > 0.3 || indicators.filter(Boolean).length >= 2;
+
+  return { isSmiling, score: Math.min(1, score) };
+}
+
+// A wider jaw only counts as clenching while the mouth stays shut: opened no
+// more than `jawShutTolerance` (face widths) past neutral, so landmark jitter
+// around neutral doesn't flip the gate. While the jaw is tense the tolerance
+// widens by `hysteresis`, like the exit level of the other regions.
+export function isMouthShut(
+  signals: Signals,
+  neutral: Signals,
+  thresholds: Thresholds,
+  isJawActive = false,
+) {
+  const tolerance =
+    thresholds.jawShutTolerance * (isJawActive ? 1 + thresholds.hysteresis : 1);
+  return signals.mouthOpen <= neutral.mouthOpen + tolerance;
+}
+
+// Which regions are tense relative to the neutral baseline.
+// Regions in `activeRegions` (tense on the previous frame) only clear once
+// they fall back past the exit threshold, `hysteresis` of the way to neutral.
+export function detectTenseRegions(
+  signals: Signals,
+  neutral: Signals,
+  thresholds: Thresholds,
+  activeRegions: readonly TensionRegion[] = [],
+): TensionRegion[] {
+  const regions: TensionRegion[] = [];
+  const level = (region: TensionRegion, enter: number, neutralLevel: number) =>
+    activeRegions.includes(region)
+      ? enter + (neutralLevel - enter) * thresholds.hysteresis
+      : enter;
+
+  if (
+    signals.eyeOpenAvg <
+      neutral.eyeOpenAvg * level("eyes", thresholds.tension, 1) ||
+    signals.eyeSquint - neutral.eyeSquint >
+      level("eyes", thresholds.blendshapeTensionDelta, 0)
+  ) {
+    regions.push("eyes");
+  }
+  if (
+    signals.browInnerDist <
+      neutral.browInnerDist * level("brows", thresholds.tension, 1) ||
+    signals.browDown - neutral.browDown >
+      level("brows", thresholds.blendshapeTensionDelta, 0)
+  ) {
+    regions.push("brows");
+  }
+  if (
+    signals.lipThickness <
+      neutral.lipThickness * level("lips", thresholds.lipPress, 1) ||
+    signals.mouthPress - neutral.mouthPress >
+      level("lips", thresholds.blendshapeTensionDelta, 0)
+  ) {
+    regions.push("lips");
+  }
+  if (
+    signals.jawWidth >
+      neutral.jawWidth * level("jaw", thresholds.jawClench, 1) &&
+    isMouthShut(signals, neutral, thresholds, activeRegions.includes("jaw"))
+  ) {
+    regions.push("jaw");
+  }
+
+  return regions;
+}
+
+export function classify(
+  signals: Signals,
+  neutral: Signals,
+  thresholds: Thresholds,
+  { activeRegions = [], isTalking = false }: ClassifyContext = {},
+): Classification {
+  if (exceedsHeadPose(signals, thresholds, neutral)) {
+    return {
+      isHeadTurned: true,
+      isSmiling: false,
+      smileScore: 0,
+      isTalking: false,
+      regions: [],
+      isTense: false,
+    };
+  }
+
+  const { isSmiling, score } = detectSmile(signals, neutral, thresholds);
+  const regions = detectTenseRegions(
+    signals,
+    neutral,
+    thresholds,
+    activeRegions,
+  );
+
+  return {
+    isHeadTurned: false,
+    isSmiling,
+    smileScore: score,
+    isTalking,
+    regions,
+    isTense: !isSmiling && !isTalking && regions.length > 0,
+  };
+}
@@ -1,21 +1,89 @@
 import { dist2D } from "./landmarks";
 import type { Landmark } from "./landmarks";
 import { FACE_LM } from "./indices";
+import { computeBlendshapeSignals } from "./blendshapes";
+import type { Blendshape, BlendshapeSignals } from "./blendshapes";
+import {
+  estimatePoseFromLandmarks,
+  poseFromMatrix,
+  verticalCompensation,
+  type HeadPose,
+} from "./headPose";
 
 // MediaPipe face landmark indices for eyes (FaceMesh-style indexing)
 // All indices can be found here: https://storage.googleapis.com/mediapipe-assets/documentation/mediapipe_face_landmark_fullsize.png
 
 // basically unitless ratios
-export type Signals = {
+export type LandmarkSignals = {
   eyeOpenAvg: number; // average of left and right eye openness, higher when eyes are open
+  leftEyeOpen: number; // per eye, for blink detection
+  rightEyeOpen: number;
   browInnerDist: number; // smaller when furrowing, larger when relaxing
   mouthWidth: number; // larger when smiling, smaller when relaxing
   mouthCornerLift: number; // higher when smiling (corners lift relative to center)
   cheekRaise: number; // smaller when smiling (cheeks push up toward eyes)
+  lipThickness: number; // smaller when pressing lips together
+  mouthOpen: number; // inner lip gap, near zero when the jaw is shut
+  jawWidth: number; // larger when clenching (masseter bulge)
   headRotation: number; // -1 to 1, 0 = forward
 };
 
-export function computeSignals(landmarks: Landmark[]): Signals | null {
+// landmark ratios, the model's blendshape scores and 3D head pose
+export type Signals = LandmarkSignals & BlendshapeSignals & HeadPose;
+
+// Every Signals key at runtime, e.g. for validating a stored baseline
+const SIGNAL_KEY_SET: Record<keyof Signals, true> = {
+  eyeOpenAvg: true,
+  leftEyeOpen: true,
+  rightEyeOpen: true,
+  browInnerDist: true,
+  mouthWidth: true,
+  mouthCornerLift: true,
+  cheekRaise: true,
+  lipThickness: true,
+  mouthOpen: true,
+  jawWidth: true,
+  headRotation: true,
+  browDown: true,
+  eyeSquint: true,
+  cheekSquint: true,
+  mouthPress: true,
+  jawForward: true,
+  mouthSmile: true,
+  headYaw: true,
+  headPitch: true,
+  headRoll: true,
+};
+export const SIGNAL_KEYS = Object.keys(SIGNAL_KEY_SET) as (keyof Signals)[];
+
+// Fills in signals added since a stored baseline was saved, where they can be
+// derived; rejects a baseline that still has missing or non-numeric signals
+export function migrateNeutral(stored: Partial<Signals>): Signals {
+  const neutral: Partial<Signals> = {
+    // Head pose wasn't recorded: the baseline is taken facing the camera
+    headYaw: 0,
+    headPitch: 0,
+    headRoll: 0,
+    leftEyeOpen: stored.eyeOpenAvg,
+    rightEyeOpen: stored.eyeOpenAvg,
+    ...stored,
+  };
+  const missing = SIGNAL_KEYS.filter((key) => {
+    const value = neutral[key];
+    return typeof value !== "number" || !Number.isFinite(value);
+  });
+  if (missing.length > 0) {
+    throw new Error(`Stored baseline is missing ${missing.join(", ")}`);
+  }
+  return neutral as Signals;
+}
+
+// transformationMatrix: MediaPipe facial transformation matrix data, if available
+export function computeSignals(
+  landmarks: Landmark[],
+  blendshapes?: Blendshape[],
+  transformationMatrix?: number[],
+): Signals | null {
   if (!landmarks?.length) return null;
 
   const faceWidth = dist2D(
@@ -60,6 +128,22 @@ export function computeSignals(landmarks: Landmark[]): Signals | null {
   );
   const cheekRaise = (leftCheekDist + rightCheekDist) / 2 / faceWidth;
 
+  // Lip compression (outer lip edges squeeze together when pressed)
+  const lipThickness =
+    dist2D(landmarks[FACE_LM.upperLipTop], landmarks[FACE_LM.lowerLipBottom]) /
+    faceWidth;
+
+  // Mouth opening (inner lip gap)
+  const mouthOpen =
+    dist2D(
+      landmarks[FACE_LM.upperLipCenter],
+      landmarks[FACE_LM.lowerLipCenter],
+    ) / faceWidth;
+
+  // Jaw width near the masseter
+  const jawWidth =
+    dist2D(landmarks[FACE_LM.leftJaw], landmarks[FACE_LM.rightJaw]) / faceWidth;
+
   // Head rotation from face asymmetry (nose position relative to face edges)
   const noseBridge = landmarks[FACE_LM.noseBridge];
   const noseToLeft = Math.abs(noseBridge.x - landmarks[FACE_LM.leftFaceEdge].x);
@@ -69,12 +153,43 @@ export function computeSignals(landmarks: Landmark[]): Signals | null {
   const asymmetryRatio = noseToRight > 0 ? noseToLeft / noseToRight : 1;
   const headRotation = (asymmetryRatio - 1) / (asymmetryRatio + 1);
 
+  // 3D head pose, and pose compensation for the mostly-vertical ratios
+  const pose = transformationMatrix
+    ? poseFromMatrix(transformationMatrix)
+    : estimatePoseFromLandmarks(landmarks, headRotation);
+  const vertical = verticalCompensation(pose);
+
   return {
-    eyeOpenAvg: (leftEyeOpen + rightEyeOpen) / 2,
+    eyeOpenAvg: ((leftEyeOpen + rightEyeOpen) / 2) * vertical,
+    leftEyeOpen: leftEyeOpen * vertical,
+    rightEyeOpen: rightEyeOpen * vertical,
     browInnerDist,
     mouthWidth,
-    mouthCornerLift,
-    cheekRaise,
+    mouthCornerLift: mouthCornerLift * vertical,
+    cheekRaise: cheekRaise * vertical,
+    lipThickness: lipThickness * vertical,
+    mouthOpen: mouthOpen * vertical,
+    jawWidth,
     headRotation,
+    ...pose,
+    ...computeBlendshapeSignals(blendshapes),
   };
 }
+
+// Mean of each signal across samples (used for the calibrated neutral),
+// optionally weighted per sample
+export function averageSignals(
+  samples: Signals[],
+  weights?: number[],
+): Signals | null {
+  const weightOf = (i: number) => weights?.[i] ?? 1;
+  const total = samples.reduce((sum, _, i) => sum + weightOf(i), 0);
+  if (samples.length === 0 || total <= 0) return null;
+
+  const mean = { ...samples[0] };
+  for (const key of Object.keys(mean) as (keyof Signals)[]) {
+    mean[key] =
+      samples.reduce((sum, s, i) => sum + s[key] * weightOf(i), 0) / total;
+  }
+  return mean;
+}
@@ -1,17 +1,26 @@
 import { FaceLandmarker, FilesetResolver } from "@mediapipe/tasks-vision";
+// Bundled from the installed package, so the WASM version always matches the JS
+import simdLoaderUrl from "@mediapipe-wasm/vision_wasm_internal.js?url";
+import simdBinaryUrl from "@mediapipe-wasm/vision_wasm_internal.wasm?url";
+import noSimdLoaderUrl from "@mediapipe-wasm/vision_wasm_nosimd_internal.js?url";
+import noSimdBinaryUrl from "@mediapipe-wasm/vision_wasm_nosimd_internal.wasm?url";
+
+const MAX_FACES = 4;
 
 export async function createFaceLandmarker() {
-  const vision = await FilesetResolver.forVisionTasks(
-    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm",
-  );
+  const vision = (await FilesetResolver.isSimdSupported())
+    ? { wasmLoaderPath: simdLoaderUrl, wasmBinaryPath: simdBinaryUrl }
+    : { wasmLoaderPath: noSimdLoaderUrl, wasmBinaryPath: noSimdBinaryUrl };
 
   const faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
     baseOptions: {
       modelAssetPath: "/models/face_landmarker.task",
     },
     runningMode: "VIDEO",
-    numFaces: 1,
+    // More than one so the user's face can be picked out (see faceLock.ts)
+    numFaces: MAX_FACES,
     outputFaceBlendshapes: true,
+    outputFacialTransformationMatrixes: true,
   });
 
   return faceLandmarker;
@@ -0,0 +1,185 @@
+import type { FaceLandmarker } from "@mediapipe/tasks-vision";
+import type { Landmark } from "./landmarks";
+import type { Blendshape } from "./blendshapes";
+import { computeSignals, type Signals } from "./computeSignals";
+import { LightingMeter, type FaceLighting } from "./inputQuality";
+
+export type DetectorMode = "worker" | "main-thread";
+
+export type DetectedFace = {
+  landmarks: Landmark[];
+  blendshapes: Blendshape[] | undefined;
+  transformationMatrix: number[] | undefined; // 4x4, column-major
+  signals: Signals;
+  lighting: FaceLighting | null; // of the face region, on the same frame
+};
+
+export type Detection = {
+  timestamp: number;
+  landmarks: Landmark[] | null; // null when no face was found
+  blendshapes: Blendshape[] | undefined;
+  transformationMatrix: number[] | undefined; // 4x4, column-major
+  signals: Signals | null;
+  faces: DetectedFace[]; // every face found; the fields above are the first
+};
+
+// Messages between the main thread and landmarker.worker.ts
+export type WorkerRequest =
+  | { type: "init" }
+  | { type: "detect"; frame: ImageBitmap; timestamp: number }
+  | { type: "close" };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | { type: "result"; detection: Detection };
+
+/**
+ * Runs face landmark inference on a video frame, either on the main thread
+ * or in a worker. Callers should wait for each `detect` before sending the
+ * next frame; timestamps must increase.
+ */
+export interface FaceDetector {
+  readonly mode: DetectorMode;
+  detect(video: HTMLVideoElement, timestamp: number): Promise<Detection>;
+  close(): void;
+}
+
+// Shared by both modes so the worker and fallback return identical results.
+// `measureLighting` reads the frame the landmarks were detected on.
+export function toDetection(
+  result: ReturnType<FaceLandmarker["detectForVideo"]>,
+  timestamp: number,
+  measureLighting: (landmarks: Landmark[]) => FaceLighting | null,
+): Detection {
+  const faces = (result.faceLandmarks ?? []).flatMap(
+    (landmarks, i): DetectedFace[] => {
+      const blendshapes = result.faceBlendshapes?.[i]?.categories.map((c) => ({
+        categoryName: c.categoryName,
+        score: c.score,
+      }));
+      const transformationMatrix =
+        result.facialTransformationMatrixes?.[i]?.data;
+      const signals = computeSignals(
+        landmarks,
+        blendshapes,
+        transformationMatrix,
+      );
+      if (!signals) return [];
+      return [
+        {
+          landmarks,
+          blendshapes,
+          transformationMatrix,
+          signals,
+          lighting: measureLighting(landmarks),
+        },
+      ];
+    },
+  );
+  const [first] = faces;
+
+  return {
+    timestamp,
+    landmarks: first?.landmarks ?? null,
+    blendshapes: first?.blendshapes,
+    transformationMatrix: first?.transformationMatrix,
+    signals: first?.signals ?? null,
+    faces,
+  };
+}
+
+export function supportsWorkerDetection() {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+export function createMainThreadDetector(
+  landmarker: FaceLandmarker,
+): FaceDetector {
+  const lightingMeter = new LightingMeter();
+  return {
+    mode: "main-thread",
+    async detect(video, timestamp) {
+      return toDetection(
+        landmarker.detectForVideo(video, timestamp),
+        timestamp,
+        (landmarks) =>
+          lightingMeter.measure(
+            video,
+            video.videoWidth,
+            video.videoHeight,
+            landmarks,
+          ),
+      );
+    },
+    close() {
+      landmarker.close();
+    },
+  };
+}
+
+// Resolves once the worker has loaded the model, rejects if it fails to
+export function createWorkerDetector(): Promise<FaceDetector> {
+  const worker = new Worker(
+    new URL("./landmarker.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(request, transfer);
+
+  let pending: {
+    resolve: (detection: Detection) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+
+  return new Promise((resolveInit, rejectInit) => {
+    let ready = false;
+
+    function fail(message: string) {
+      const err = new Error(message);
+      if (!ready) {
+        worker.terminate();
+        rejectInit(err);
+      }
+      pending?.reject(err);
+      pending = null;
+    }
+
+    worker.onerror = (e) => fail(e.message || "Landmarker worker crashed");
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (message.type === "error") {
+        fail(message.message);
+      } else if (message.type === "ready") {
+        ready = true;
+        resolveInit(detector);
+      } else {
+        pending?.resolve(message.detection);
+        pending = null;
+      }
+    };
+
+    const detector: FaceDetector = {
+      mode: "worker",
+      async detect(video, timestamp) {
+        const frame = await createImageBitmap(video);
+        return new Promise<Detection>((resolve, reject) => {
+          pending = { resolve, reject };
+          post({ type: "detect", frame, timestamp }, [frame]);
+        });
+      },
+      close() {
+        post({ type: "close" });
+        worker.terminate();
+        pending?.reject(new Error("Detector closed"));
+        pending = null;
+      },
+    };
+
+    post({ type: "init" });
+  });
+}
@@ -1,3 +1,69 @@
+import { FaceLandmarker } from "@mediapipe/tasks-vision";
+import { FACE_LM, REGION_LANDMARKS } from "./indices";
+import { OVERLAY_REGIONS, type RegionDeviations } from "./regionDeviation";
+
+export type LandmarkRenderMode =
+  "tessellation" | "contours" | "signalPoints" | "none";
+
+export const LANDMARK_RENDER_MODES: Record<LandmarkRenderMode, string> = {
+  tessellation: "Full mesh",
+  contours: "Contours",
+  signalPoints: "Signal points only",
+  none: "No overlay",
+};
+
+export type LandmarkStyle = {
+  mode: LandmarkRenderMode;
+  lineColor: string; // #rrggbb, for mesh and contour lines
+  pointColor: string; // #rrggbb, for signal points
+  lineWidth: number; // px; points scale with it
+};
+
+export const DEFAULT_LANDMARK_STYLE: LandmarkStyle = {
+  mode: "contours",
+  lineColor: "#00ff00",
+  pointColor: "#00ff00",
+  lineWidth: 1,
+};
+
+// Allowed range for the settings panel
+export const LANDMARK_STYLE_LIMITS: Record<
+  "lineWidth",
+  { label: string; min: number; max: number; step: number }
+> = {
+  lineWidth: { label: "Line thickness (px)", min: 0.5, max: 5, step: 0.5 },
+};
+
+const isRenderMode = (value: unknown): value is LandmarkRenderMode =>
+  typeof value === "string" && value in LANDMARK_RENDER_MODES;
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+// Defaults overlaid with any valid stored values
+export function sanitizeLandmarkStyle(
+  stored: Partial<LandmarkStyle>,
+): LandmarkStyle {
+  const { min, max } = LANDMARK_STYLE_LIMITS.lineWidth;
+  return {
+    mode: isRenderMode(stored.mode) ? stored.mode : DEFAULT_LANDMARK_STYLE.mode,
+    lineColor: isHexColor(stored.lineColor)
+      ? stored.lineColor
+      : DEFAULT_LANDMARK_STYLE.lineColor,
+    pointColor: isHexColor(stored.pointColor)
+      ? stored.pointColor
+      : DEFAULT_LANDMARK_STYLE.pointColor,
+    lineWidth:
+      typeof stored.lineWidth === "number" &&
+      stored.lineWidth >= min &&
+      stored.lineWidth <= max
+        ? stored.lineWidth
+        : DEFAULT_LANDMARK_STYLE.lineWidth,
+  };
+}
+
+const SIGNAL_POINTS: number[] = Object.values(FACE_LM);
+
 export function highlightPoints(
   ctx: CanvasRenderingContext2D,
   points: Array<{ x: number; y: number }>,
@@ -14,3 +80,127 @@ export function highlightPoints(
     ctx.fill();
   }
 }
+
+export function drawConnections(
+  ctx: CanvasRenderingContext2D,
+  points: Array<{ x: number; y: number }>,
+  connections: Array<{ start: number; end: number }>,
+  canvasWidth: number,
+  canvasHeight: number,
+  options?: { color?: string; lineWidth?: number },
+) {
+  const { color = "lime", lineWidth = 1 } = options ?? {};
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+
+  // One path for the whole set; the mesh alone has ~2,500 edges
+  ctx.beginPath();
+  for (const { start, end } of connections) {
+    const a = points[start];
+    const b = points[end];
+    if (!a || !b) continue;
+    ctx.moveTo(a.x * canvasWidth, a.y * canvasHeight);
+    ctx.lineTo(b.x * canvasWidth, b.y * canvasHeight);
+  }
+  ctx.stroke();
+}
+
+// Draws the face landmarks in the chosen render mode
+export function drawLandmarks(
+  ctx: CanvasRenderingContext2D,
+  landmarks: Array<{ x: number; y: number }>,
+  canvasWidth: number,
+  canvasHeight: number,
+  style: LandmarkStyle = DEFAULT_LANDMARK_STYLE,
+) {
+  const lineOptions = { color: style.lineColor, lineWidth: style.lineWidth };
+  switch (style.mode) {
+    case "tessellation":
+      drawConnections(
+        ctx,
+        landmarks,
+        FaceLandmarker.FACE_LANDMARKS_TESSELATION,
+        canvasWidth,
+        canvasHeight,
+        lineOptions,
+      );
+      break;
+    case "contours":
+      drawConnections(
+        ctx,
+        landmarks,
+        FaceLandmarker.FACE_LANDMARKS_CONTOURS,
+        canvasWidth,
+        canvasHeight,
+        lineOptions,
+      );
+      break;
+    case "signalPoints":
+      highlightPoints(
+        ctx,
+        SIGNAL_POINTS.map((i) => landmarks[i]).filter((pt) => pt !== undefined),
+        canvasWidth,
+        canvasHeight,
+        { color: style.pointColor, radius: 1 + style.lineWidth * 1.5 },
+      );
+      break;
+    case "none":
+      break;
+  }
+}
+
+// Green at the baseline through amber to red at the tension threshold
+export function deviationColor(deviation: number, alpha = 1) {
+  const hue = 120 * (1 - Math.min(1, Math.max(0, deviation)));
+  return `hsla(${hue}, 85%, 50%, ${alpha})`;
+}
+
+/**
+ * Colors each region's landmarks by its deviation from the baseline and
+ * optionally labels it. `mirrored` should match the CSS flip on the canvas,
+ * so labels are drawn flipped back and read normally.
+ */
+export function drawRegionOverlay(
+  ctx: CanvasRenderingContext2D,
+  landmarks: Array<{ x: number; y: number }>,
+  deviations: RegionDeviations,
+  canvasWidth: number,
+  canvasHeight: number,
+  options?: { showLabels?: boolean; mirrored?: boolean },
+) {
+  const { showLabels = false, mirrored = false } = options ?? {};
+
+  for (const region of OVERLAY_REGIONS) {
+    const points = REGION_LANDMARKS[region]
+      .map((i) => landmarks[i])
+      .filter((pt) => pt !== undefined);
+    if (points.length === 0) continue;
+
+    const color = deviationColor(deviations[region]);
+    highlightPoints(ctx, points, canvasWidth, canvasHeight, {
+      color,
+      radius: 2.5,
+    });
+    if (!showLabels) continue;
+
+    const x =
+      (points.reduce((sum, pt) => sum + pt.x, 0) / points.length) * canvasWidth;
+    const y =
+      (points.reduce((sum, pt) => sum + pt.y, 0) / points.length) *
+      canvasHeight;
+    const text = `${region} ${Math.round(deviations[region] * 100)}%`;
+
+    ctx.save();
+    ctx.translate(x, y);
+    if (mirrored) ctx.scale(-1, 1);
+    ctx.font = "12px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.strokeText(text, 0, 0);
+    ctx.fillStyle = color;
+    ctx.fillText(text, 0, 0);
+    ctx.restore();
+  }
+}
@@ -0,0 +1,24 @@
+type Listener<Events, K extends keyof Events> = (event: Events[K]) => void;
+
+/**
+ * Typed event base for the framework-agnostic detection classes.
+ * `on` returns an unsubscribe function, which suits effect cleanups.
+ */
+export class EventEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events, K>> } = {};
+
+  on<K extends keyof Events>(
+    type: K,
+    listener: Listener<Events, K>,
+  ): () => void {
+    const listeners = (this.listeners[type] ??= new Set());
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  protected emit<K extends keyof Events>(type: K, event: Events[K]) {
+    for (const listener of this.listeners[type] ?? []) listener(event);
+  }
+}
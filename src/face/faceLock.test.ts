@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { DetectedFace } from "./detector";
+import { FaceLock, type FaceLockStatus } from "./faceLock";
+import { FACE_LM } from "./indices";
+import type { Landmark } from "./landmarks";
+import type { Signals } from "./computeSignals";
+
+const LANDMARK_COUNT = 478;
+
+// Face geometry as multiples of the user's: eye span, inner eye corners,
+// nose length, nose to lip, forehead to nose bridge
+type Geometry = [number, number, number, number, number];
+
+const USER: Geometry = [1, 1, 1, 1, 1];
+// Someone else, about 15% off on average
+const COLLEAGUE: Geometry = [1.1, 0.85, 1.2, 1.15, 0.85];
+
+// A face 0.3 wide centered at `x`
+function face(geometry: Geometry, x = 0.5): DetectedFace {
+  const [eyes, inner, nose, lip, forehead] = geometry;
+  const points: Landmark[] = Array.from({ length: LANDMARK_COUNT }, () => ({
+    x,
+    y: 0.5,
+  }));
+  const at = (index: number, dx: number, y: number) => {
+    points[index] = { x: x + dx, y };
+  };
+  at(FACE_LM.leftFaceEdge, -0.15, 0.45);
+  at(FACE_LM.rightFaceEdge, 0.15, 0.45);
+  at(FACE_LM.leftEyeOuter, -0.09 * eyes, 0.4);
+  at(FACE_LM.rightEyeOuter, 0.09 * eyes, 0.4);
+  at(133, -0.03 * inner, 0.4);
+  at(362, 0.03 * inner, 0.4);
+  at(10, 0, 0.42 - 0.12 * forehead);
+  at(FACE_LM.noseBridge, 0, 0.42);
+  at(FACE_LM.noseTip, 0, 0.42 + 0.09 * nose);
+  at(FACE_LM.upperLipTop, 0, 0.42 + 0.09 * nose + 0.05 * lip);
+  return {
+    landmarks: points,
+    blendshapes: undefined,
+    transformationMatrix: undefined,
+    signals: {} as Signals,
+    lighting: null,
+  };
+}
+
+function statuses(lock: FaceLock) {
+  const seen: FaceLockStatus[] = [];
+  lock.on("statusChange", ({ status }) => seen.push(status));
+  return seen;
+}
+
+// The user alone in view until the signature is learned
+function lockedOnUser() {
+  const lock = new FaceLock();
+  lock.select([face(USER)], 0);
+  return lock;
+}
+
+function signatureDistance(a: number[], b: number[]) {
+  return a.reduce((sum, v, i) => sum + Math.abs(v - b[i]) / b[i], 0) / a.length;
+}
+
+describe("FaceLock", () => {
+  it("follows the user among several faces", () => {
+    const lock = lockedOnUser();
+
+    const user = face(USER, 0.3);
+    expect(lock.select([face(COLLEAGUE, 0.7), user], 2_000)).toBe(user);
+  });
+
+  it("rejects someone else who takes over the seat", () => {
+    const lock = lockedOnUser();
+    const signature = lock.getSignature()!;
+    const seen = statuses(lock);
+
+    // The user leaves, then a colleague sits alone in view for a minute at 30fps
+    expect(lock.select([], 1_000)).toBeNull();
+    for (let t = 2_000; t < 62_000; t += 33) {
+      expect(lock.select([face(COLLEAGUE)], t)).toBeNull();
+    }
+
+    expect(seen).toEqual(["none", "unrecognized"]);
+    expect(lock.getSignature()).toEqual(signature);
+    expect(lock.select([face(USER)], 62_000)).not.toBeNull();
+  });
+
+  it("rejects a stranger against a stored signature after a reload", () => {
+    const lock = new FaceLock();
+    lock.setSignature(lockedOnUser().getSignature());
+
+    expect(lock.select([face(COLLEAGUE)], 0)).toBeNull();
+    expect(lock.select([face(USER)], 100)).not.toBeNull();
+  });
+
+  it("learns by elapsed time, not frame count", () => {
+    const drifted: Geometry = [1.03, 1.03, 1.03, 1.03, 1.03];
+    const learnAt = (frameMs: number) => {
+      const lock = lockedOnUser();
+      for (let t = 1_000; t <= 11_000; t += frameMs) {
+        lock.select([face(drifted)], t);
+      }
+      return signatureDistance(
+        lock.getSignature()!,
+        lockedOnUser().getSignature()!,
+      );
+    };
+
+    const at30fps = learnAt(33);
+    const at5fps = learnAt(200);
+    expect(at30fps).toBeGreaterThan(0);
+    expect(at30fps).toBeLessThan(0.03 * 0.5);
+    expect(at5fps).toBeCloseTo(at30fps, 3);
+  });
+
+  it("doesn't creep from the calibrated signature toward someone else", () => {
+    const lock = lockedOnUser();
+    const anchor = lock.getSignature()!;
+
+    // Ten minutes of geometry edging from the user's toward the colleague's
+    const minutes = 10;
+    for (let t = 1_000; t <= minutes * 60_000; t += 100) {
+      const share = t / (minutes * 60_000);
+      const geometry = USER.map(
+        (value, i) => value + (COLLEAGUE[i] - value) * share,
+      ) as Geometry;
+      lock.select([face(geometry)], t);
+    }
+
+    expect(signatureDistance(lock.getSignature()!, anchor)).toBeLessThanOrEqual(
+      0.02 + 1e-9,
+    );
+    expect(lock.select([face(COLLEAGUE)], minutes * 60_000 + 100)).toBeNull();
+  });
+});
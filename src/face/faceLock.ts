@@ -0,0 +1,194 @@
+import type { DetectedFace } from "./detector";
+import { FACE_LM } from "./indices";
+import { dist2D, type Landmark } from "./landmarks";
+import { EventEmitter } from "./eventEmitter";
+
+// Rigid distances that don't move with expressions, relative to face width
+const SIGNATURE_PAIRS: Array<[number, number]> = [
+  [FACE_LM.leftEyeOuter, FACE_LM.rightEyeOuter], // eye span
+  [133, 362], // inner eye corners
+  [FACE_LM.noseBridge, FACE_LM.noseTip], // nose length
+  [FACE_LM.noseTip, FACE_LM.upperLipTop], // nose to upper lip
+  [10, FACE_LM.noseBridge], // forehead to nose bridge
+];
+
+const IDENTITY_TOLERANCE = 0.08; // mean relative signature difference
+const CONTINUITY_TOLERANCE = 0.5; // movement since the last frame, face widths
+const CONTINUITY_MS = 1_000; // an older last position doesn't count
+const MAX_SCORE = 1.25; // in tolerances; worse than this isn't the user
+const DISTINCT_MARGIN = 1; // the best face has to win by this much
+const DOMINANT_SIZE = 1.5; // with nothing to go on, the largest face wins by this
+const LEARN_SCORE = 1; // only a face this close to the reference is learned
+const LEARN_TIME_MS = 60_000; // time constant of learning while alone in view
+const MAX_DRIFT = 0.25; // in tolerances, learned reference from the anchor
+
+export type FaceLockStatus =
+  | "none" // no face in view
+  | "locked" // following the user
+  | "ambiguous" // several faces and the user can't be told apart
+  | "unrecognized"; // only someone else in view
+
+export type FaceLockEvents = {
+  statusChange: { status: FaceLockStatus; faceCount: number };
+};
+
+type Candidate = {
+  face: DetectedFace;
+  signature: number[];
+  center: Landmark;
+  width: number;
+  identity: number; // signature distance in tolerances, 0 without a reference
+  score: number;
+};
+
+function signatureOf(landmarks: Landmark[], width: number): number[] {
+  return SIGNATURE_PAIRS.map(
+    ([a, b]) => dist2D(landmarks[a], landmarks[b]) / width,
+  );
+}
+
+function identityDistance(signature: number[], reference: number[]) {
+  const total = signature.reduce(
+    (sum, value, i) => sum + Math.abs(value - reference[i]) / reference[i],
+    0,
+  );
+  return total / signature.length;
+}
+
+/**
+ * Picks the user's face when several are in view, from face geometry
+ * (a signature learned while the user is alone in view) and continuity with
+ * the previous position. Returns no face when it can't tell, so detection
+ * pauses instead of measuring someone else against the user's baseline.
+ * The learned signature only follows faces that already match it, slowly and
+ * within `MAX_DRIFT` of the anchor (the stored or first learned signature),
+ * so someone else sitting down alone isn't learned as the user.
+ */
+export class FaceLock extends EventEmitter<FaceLockEvents> {
+  private anchor: number[] | null = null;
+  private reference: number[] | null = null;
+  private lastLearnTime = -Infinity;
+  private last: { center: Landmark; width: number; time: number } | null = null;
+  private status: FaceLockStatus = "none";
+  private faceCount = 0;
+
+  // The user's learned face geometry, to store with a calibration
+  getSignature(): number[] | null {
+    return this.reference;
+  }
+
+  // Starts from a stored signature (the calibrated user's), so a reload
+  // doesn't lock onto whoever shows up first. Invalid ones are ignored.
+  setSignature(signature: number[] | null) {
+    const isValid =
+      signature?.length === SIGNATURE_PAIRS.length &&
+      signature.every((v) => Number.isFinite(v) && v > 0);
+    this.anchor = isValid ? [...signature] : null;
+    this.reference = this.anchor && [...this.anchor];
+    this.last = null;
+  }
+
+  // Forgets the user, e.g. when someone else calibrates
+  reset() {
+    this.anchor = null;
+    this.reference = null;
+    this.last = null;
+    this.setStatus("none", 0);
+  }
+
+  select(faces: DetectedFace[], now: number): DetectedFace | null {
+    if (faces.length === 0) {
+      this.setStatus("none", 0);
+      return null;
+    }
+
+    const last =
+      this.last && now - this.last.time <= CONTINUITY_MS ? this.last : null;
+    const candidates: Candidate[] = faces
+      .map((face) => {
+        const { landmarks } = face;
+        const width = dist2D(
+          landmarks[FACE_LM.leftFaceEdge],
+          landmarks[FACE_LM.rightFaceEdge],
+        );
+        const center = landmarks[FACE_LM.noseTip];
+        const signature = signatureOf(landmarks, width);
+        const identity = this.reference
+          ? identityDistance(signature, this.reference) / IDENTITY_TOLERANCE
+          : 0;
+        let score = identity;
+        if (last) {
+          score +=
+            dist2D(center, last.center) / last.width / CONTINUITY_TOLERANCE;
+        }
+        return { face, signature, center, width, identity, score };
+      })
+      .sort((a, b) => a.score - b.score);
+
+    const chosen =
+      this.reference || last
+        ? this.pickByScore(candidates)
+        : this.pickBySize(candidates);
+    if (!chosen) return null;
+
+    this.last = { center: chosen.center, width: chosen.width, time: now };
+    if (faces.length === 1 && chosen.identity < LEARN_SCORE) {
+      this.learn(chosen.signature, now);
+    }
+    this.setStatus("locked", faces.length);
+    return chosen.face;
+  }
+
+  private pickByScore(candidates: Candidate[]): Candidate | null {
+    const [best, runnerUp] = candidates;
+    if (best.score > MAX_SCORE) {
+      this.setStatus("unrecognized", candidates.length);
+      return null;
+    }
+    if (runnerUp && runnerUp.score - best.score < DISTINCT_MARGIN) {
+      this.setStatus("ambiguous", candidates.length);
+      return null;
+    }
+    return best;
+  }
+
+  // First sighting: the user is usually the one closest to the camera
+  private pickBySize(candidates: Candidate[]): Candidate | null {
+    const [largest, next] = [...candidates].sort((a, b) => b.width - a.width);
+    if (next && largest.width < next.width * DOMINANT_SIZE) {
+      this.setStatus("ambiguous", candidates.length);
+      return null;
+    }
+    return largest;
+  }
+
+  // Moves the reference toward the signature by the time since the last
+  // learned frame (at most CONTINUITY_MS of it), so the frame rate doesn't matter
+  private learn(signature: number[], now: number) {
+    const { reference, anchor } = this;
+    const elapsed = Math.min(now - this.lastLearnTime, CONTINUITY_MS);
+    const alpha = 1 - Math.exp(-elapsed / LEARN_TIME_MS);
+    this.lastLearnTime = now;
+    if (!reference || !anchor) {
+      this.anchor = signature;
+      this.reference = [...signature];
+      return;
+    }
+
+    const next = reference.map(
+      (value, i) => value + (signature[i] - value) * alpha,
+    );
+    const drift = identityDistance(next, anchor) / IDENTITY_TOLERANCE;
+    const scale = drift > MAX_DRIFT ? MAX_DRIFT / drift : 1;
+    this.reference = next.map(
+      (value, i) => anchor[i] + (value - anchor[i]) * scale,
+    );
+  }
+
+  private setStatus(status: FaceLockStatus, faceCount: number) {
+    if (status === this.status && faceCount === this.faceCount) return;
+    this.status = status;
+    this.faceCount = faceCount;
+    this.emit("statusChange", { status, faceCount });
+  }
+}
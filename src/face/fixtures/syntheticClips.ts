@@ -0,0 +1,135 @@
+import { SIGNAL_BLENDSHAPES, type Blendshape } from "../blendshapes";
+import { computeSignals } from "../computeSignals";
+import { FACE_LM } from "../indices";
+import type { Landmark } from "../landmarks";
+import {
+  appendFrame,
+  createRecording,
+  type LandmarkRecording,
+} from "../sessionRecording";
+import { DEFAULT_THRESHOLDS } from "../thresholds";
+
+/**
+ * Small labeled clips built from hand-placed landmarks, so the replay suite
+ * has something to run without a camera. Each lasts 8s at 10fps: a second of
+ * the neutral face, then the labeled expression.
+ */
+
+type Point = keyof typeof FACE_LM;
+type Pose = Partial<Record<Point, Landmark>>;
+
+const LANDMARK_COUNT = 478;
+const START = Date.UTC(2026, 0, 5, 9);
+const FRAME_MS = 100;
+const CLIP_MS = 8_000;
+const ONSET_MS = 1_000;
+
+// Face 0.3 wide, facing the camera
+const NEUTRAL_FACE: Record<Point, Landmark> = {
+  leftFaceEdge: { x: 0.35, y: 0.45 },
+  rightFaceEdge: { x: 0.65, y: 0.45 },
+  leftEyeTop: { x: 0.44, y: 0.4 },
+  leftEyeBottom: { x: 0.44, y: 0.418 },
+  rightEyeTop: { x: 0.56, y: 0.4 },
+  rightEyeBottom: { x: 0.56, y: 0.418 },
+  leftInnerBrow: { x: 0.47, y: 0.37 },
+  rightInnerBrow: { x: 0.53, y: 0.37 },
+  leftMouthCorner: { x: 0.45, y: 0.6 },
+  rightMouthCorner: { x: 0.55, y: 0.6 },
+  upperLipCenter: { x: 0.5, y: 0.595 },
+  lowerLipCenter: { x: 0.5, y: 0.598 },
+  upperLipTop: { x: 0.5, y: 0.585 },
+  lowerLipBottom: { x: 0.5, y: 0.61 },
+  leftJaw: { x: 0.38, y: 0.6 },
+  rightJaw: { x: 0.62, y: 0.6 },
+  leftCheek: { x: 0.42, y: 0.5 },
+  rightCheek: { x: 0.58, y: 0.5 },
+  leftEyeOuter: { x: 0.41, y: 0.41 },
+  rightEyeOuter: { x: 0.59, y: 0.41 },
+  noseTip: { x: 0.5, y: 0.52 },
+  noseBridge: { x: 0.5, y: 0.42 },
+};
+
+// Brows drawn together, well past the default tension ratio
+const FURROW: Pose = {
+  leftInnerBrow: { x: 0.485, y: 0.375 },
+  rightInnerBrow: { x: 0.515, y: 0.375 },
+};
+
+function face(pose: Pose = {}): Landmark[] {
+  const points: Landmark[] = Array.from({ length: LANDMARK_COUNT }, () => ({
+    x: 0.5,
+    y: 0.5,
+    z: 0,
+  }));
+  for (const [name, point] of Object.entries({ ...NEUTRAL_FACE, ...pose })) {
+    points[FACE_LM[name as Point]] = { z: 0, ...point };
+  }
+  return points;
+}
+
+function blendshapes(scores: Record<string, number> = {}): Blendshape[] {
+  return SIGNAL_BLENDSHAPES.map((categoryName) => ({
+    categoryName,
+    score: scores[categoryName] ?? 0,
+  }));
+}
+
+// Baseline the clips were "calibrated" on
+export const SYNTHETIC_NEUTRAL = computeSignals(face(), blendshapes())!;
+
+function clip(
+  label: string,
+  expression: (t: number) => { pose?: Pose; scores?: Record<string, number> },
+): LandmarkRecording {
+  const recording = createRecording(
+    START,
+    SYNTHETIC_NEUTRAL,
+    DEFAULT_THRESHOLDS,
+    label,
+  );
+  for (let t = 0; t < CLIP_MS; t += FRAME_MS) {
+    const { pose, scores } = t < ONSET_MS ? {} : expression(t);
+    appendFrame(recording, START + t, face(pose), blendshapes(scores));
+  }
+  return recording;
+}
+
+export const SYNTHETIC_CLIPS: LandmarkRecording[] = [
+  // Small brow movement that stays within the tension ratio
+  clip("relaxed", (t) => ({
+    pose: {
+      leftInnerBrow: { x: 0.47 + 0.002 * Math.sin(t / 500), y: 0.37 },
+      rightInnerBrow: { x: 0.53 - 0.002 * Math.sin(t / 500), y: 0.37 },
+    },
+  })),
+  clip("furrowed brows", () => ({
+    pose: FURROW,
+    scores: { browDownLeft: 0.5, browDownRight: 0.5 },
+  })),
+  // Wider mouth with raised corners, and the eye squint that comes with it
+  clip("smiling", () => ({
+    pose: {
+      leftMouthCorner: { x: 0.43, y: 0.585 },
+      rightMouthCorner: { x: 0.57, y: 0.585 },
+    },
+    scores: {
+      mouthSmileLeft: 0.7,
+      mouthSmileRight: 0.7,
+      eyeSquintLeft: 0.4,
+      eyeSquintRight: 0.4,
+    },
+  })),
+  // Jaw opening and closing at 5Hz, with expressive brows
+  clip("talking", (t) => ({
+    pose: {
+      ...FURROW,
+      lowerLipCenter: { x: 0.5, y: (t / FRAME_MS) % 2 ? 0.615 : 0.598 },
+      lowerLipBottom: { x: 0.5, y: (t / FRAME_MS) % 2 ? 0.627 : 0.61 },
+    },
+  })),
+  // Looking off to the side, where the brow distance foreshortens
+  clip("head turned away", () => ({
+    pose: { ...FURROW, noseBridge: { x: 0.58, y: 0.42 } },
+  })),
+];
@@ -0,0 +1,56 @@
+import type { Landmark } from "./landmarks";
+import { FACE_LM } from "./indices";
+
+// degrees, 0/0/0 = facing the camera squarely
+export type HeadPose = {
+  headYaw: number; // turning left/right
+  headPitch: number; // nodding up/down (negative = looking down)
+  headRoll: number; // tilting toward a shoulder
+};
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Decomposes MediaPipe's facial transformation matrix (4x4, column-major)
+ * into yaw/pitch/roll, using the Y-X-Z rotation order.
+ */
+export function poseFromMatrix(data: number[]): HeadPose {
+  const r = (row: number, col: number) => data[col * 4 + row];
+  const sinPitch = Math.max(-1, Math.min(1, -r(1, 2)));
+
+  return {
+    headYaw: toDegrees(Math.atan2(r(0, 2), r(2, 2))),
+    headPitch: -toDegrees(Math.asin(sinPitch)),
+    headRoll: toDegrees(Math.atan2(r(1, 0), r(1, 1))),
+  };
+}
+
+/**
+ * Rough pose from 2D landmarks when no transformation matrix is available:
+ * yaw from nose asymmetry, roll from the eye line, pitch unknown (0).
+ */
+export function estimatePoseFromLandmarks(
+  landmarks: Landmark[],
+  headRotation: number,
+): HeadPose {
+  const leftEye = landmarks[FACE_LM.leftEyeOuter];
+  const rightEye = landmarks[FACE_LM.rightEyeOuter];
+
+  return {
+    headYaw: toDegrees(Math.asin(Math.max(-1, Math.min(1, headRotation)))),
+    headPitch: 0,
+    headRoll: toDegrees(
+      Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x),
+    ),
+  };
+}
+
+/**
+ * Scale for vertical distances measured over face width, undoing the
+ * foreshortening from yaw (narrows the face) and pitch (shortens verticals).
+ */
+export function verticalCompensation(pose: HeadPose): number {
+  const cosYaw = Math.cos((pose.headYaw * Math.PI) / 180);
+  const cosPitch = Math.max(0.5, Math.cos((pose.headPitch * Math.PI) / 180));
+  return cosYaw / cosPitch;
+}
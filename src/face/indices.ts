@@ -20,14 +20,49 @@ export const FACE_LM = {
   leftMouthCorner: 61,
   rightMouthCorner: 291,
 
-  // mouth vertical reference (upper lip center)
+  // mouth vertical reference (upper lip center, inner edge)
   upperLipCenter: 13,
 
+  // inner lower lip (mouth opening) and outer lip edges (lip compression)
+  lowerLipCenter: 14,
+  upperLipTop: 0,
+  lowerLipBottom: 17,
+
+  // jaw line near the masseter (widens when clenching)
+  leftJaw: 172,
+  rightJaw: 397,
+
   // under eye cheek area (for detecting cheek raise during smiles)
   leftCheek: 50,
   rightCheek: 280,
 
+  // outer eye corners (eye line for head roll)
+  leftEyeOuter: 33,
+  rightEyeOuter: 263,
+
   // nose tip (stable vertical reference)
   noseTip: 1,
   noseBridge: 6,
 } as const;
+
+// Landmarks outlining each overlay region (image left/right, like FACE_LM)
+export const REGION_LANDMARKS = {
+  brows: [
+    70, 63, 105, 66, 107, 55, 65, 52, 53, 46, 300, 293, 334, 296, 336, 285, 295,
+    282, 283, 276,
+  ],
+  eyes: [
+    33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246,
+    263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388,
+    466,
+  ],
+  cheeks: [50, 101, 118, 117, 123, 187, 205, 280, 330, 347, 346, 352, 411, 425],
+  mouth: [
+    61, 146, 91, 181, 84, 17, 314, 405, 321, 375, 291, 409, 270, 269, 267, 0,
+    37, 39, 40, 185, 78, 95, 88, 178, 87, 14, 317, 402, 318, 324, 308, 415, 310,
+    311, 312, 13, 82, 81, 80, 191,
+  ],
+  jaw: [
+    58, 172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397, 288,
+  ],
+} as const;
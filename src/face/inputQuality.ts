@@ -0,0 +1,213 @@
+import { FACE_LM } from "./indices";
+import { dist2D, type Landmark } from "./landmarks";
+
+const SAMPLE_SIZE = 32; // face region is downscaled to this many pixels square
+const GLARE_LUMA = 0.96;
+const JITTER_ALPHA = 0.2; // per frame
+const JITTER_GAP_MS = 500; // a longer gap restarts the jitter estimate
+
+// Rigid points whose frame-to-frame movement measures tracking noise
+const JITTER_POINTS = [
+  FACE_LM.noseBridge,
+  FACE_LM.noseTip,
+  FACE_LM.leftEyeOuter,
+  FACE_LM.rightEyeOuter,
+  FACE_LM.leftFaceEdge,
+  FACE_LM.rightFaceEdge,
+];
+
+export type QualityIssue =
+  | "tooFar"
+  | "tooDark"
+  | "tooBright"
+  | "lowContrast"
+  | "glare"
+  | "jitter"
+  | "outOfView";
+
+export const QUALITY_ISSUES: Record<QualityIssue, string> = {
+  tooFar: "Too far from the camera",
+  tooDark: "Too dark",
+  tooBright: "Too bright",
+  lowContrast: "Flat lighting",
+  glare: "Glare",
+  jitter: "Unsteady tracking",
+  outOfView: "Face partly out of view",
+};
+
+// Lighting of the face region, measured on the frame the landmarks came from
+export type FaceLighting = {
+  brightness: number; // 0..1, mean luma
+  contrast: number; // luma standard deviation
+  glare: number; // share of near-white pixels
+};
+
+export type InputQuality = {
+  score: number; // 0..1, the weakest of the checks below
+  faceSize: number; // face width as a share of the frame width
+  lighting: FaceLighting | null; // null when it couldn't be measured
+  jitter: number; // smoothed landmark movement per frame, in face widths
+  visibility: number; // share of landmarks inside the frame
+  issues: QualityIssue[];
+};
+
+export type QualityLevel = "good" | "fair" | "poor";
+
+const GOOD_QUALITY = 0.7;
+
+// "poor" is below the threshold at which detection pauses
+export function qualityLevel(score: number, minQuality: number): QualityLevel {
+  if (score < minQuality) return "poor";
+  return score >= Math.max(GOOD_QUALITY, minQuality) ? "good" : "fair";
+}
+
+// 0 at `bad`, 1 at `good`, linear in between (either direction)
+function ramp(value: number, bad: number, good: number) {
+  return Math.min(1, Math.max(0, (value - bad) / (good - bad)));
+}
+
+/**
+ * Measures the lighting of the face region from a downscaled copy of the
+ * frame. Runs wherever detection runs (the landmarker worker, or the main
+ * thread in fallback mode), so it reads the same frame as the landmarks.
+ * Reuses one small canvas for the pixel reads.
+ */
+export class LightingMeter {
+  private ctx:
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+  measure(
+    frame: CanvasImageSource,
+    frameWidth: number,
+    frameHeight: number,
+    landmarks: Landmark[],
+  ): FaceLighting | null {
+    const ctx = this.getContext();
+    const xs = landmarks.map((p) => p.x);
+    const ys = landmarks.map((p) => p.y);
+    const left = Math.max(0, Math.min(...xs)) * frameWidth;
+    const top = Math.max(0, Math.min(...ys)) * frameHeight;
+    const width = Math.min(1, Math.max(...xs)) * frameWidth - left;
+    const height = Math.min(1, Math.max(...ys)) * frameHeight - top;
+    if (!ctx || width < 1 || height < 1) return null;
+
+    ctx.drawImage(
+      frame,
+      left,
+      top,
+      width,
+      height,
+      0,
+      0,
+      SAMPLE_SIZE,
+      SAMPLE_SIZE,
+    );
+    const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+    let sum = 0;
+    let sumSquares = 0;
+    let bright = 0;
+    const pixels = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      const luma =
+        (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      sum += luma;
+      sumSquares += luma * luma;
+      if (luma >= GLARE_LUMA) bright++;
+    }
+    const brightness = sum / pixels;
+    return {
+      brightness,
+      contrast: Math.sqrt(
+        Math.max(0, sumSquares / pixels - brightness * brightness),
+      ),
+      glare: bright / pixels,
+    };
+  }
+
+  private getContext() {
+    if (!this.ctx) {
+      const canvas =
+        typeof OffscreenCanvas !== "undefined"
+          ? new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE)
+          : Object.assign(document.createElement("canvas"), {
+              width: SAMPLE_SIZE,
+              height: SAMPLE_SIZE,
+            });
+      this.ctx = canvas.getContext("2d", { willReadFrequently: true }) as
+        CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    }
+    return this.ctx;
+  }
+}
+
+/**
+ * Per-frame input quality: face size, lighting of the face region (from
+ * `LightingMeter`, alongside detection), landmark jitter and how much of the
+ * face is in view.
+ */
+export class InputQualityMonitor {
+  private lastPoints: Landmark[] | null = null;
+  private lastTime = -Infinity;
+  private jitter = 0;
+
+  reset() {
+    this.lastPoints = null;
+    this.jitter = 0;
+  }
+
+  assess(
+    landmarks: Landmark[],
+    lighting: FaceLighting | null,
+    now: number,
+  ): InputQuality {
+    const faceWidth = dist2D(
+      landmarks[FACE_LM.leftFaceEdge],
+      landmarks[FACE_LM.rightFaceEdge],
+    );
+    const jitter = this.updateJitter(landmarks, faceWidth, now);
+    const visibility =
+      landmarks.filter((p) => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1)
+        .length / landmarks.length;
+
+    // Lighting checks pass when the lighting couldn't be measured
+    const checks: Record<QualityIssue, number> = {
+      tooFar: ramp(faceWidth, 0.08, 0.15),
+      tooDark: lighting ? ramp(lighting.brightness, 0.12, 0.3) : 1,
+      tooBright: lighting ? ramp(lighting.brightness, 0.92, 0.75) : 1,
+      lowContrast: lighting ? ramp(lighting.contrast, 0.04, 0.1) : 1,
+      glare: lighting ? ramp(lighting.glare, 0.1, 0.02) : 1,
+      jitter: ramp(jitter, 0.05, 0.01),
+      outOfView: ramp(visibility, 0.85, 0.98),
+    };
+    const scores = Object.values(checks);
+
+    return {
+      score: Math.min(...scores),
+      faceSize: faceWidth,
+      lighting,
+      jitter,
+      visibility,
+      issues: (Object.keys(checks) as QualityIssue[]).filter(
+        (issue) => checks[issue] < 0.5,
+      ),
+    };
+  }
+
+  private updateJitter(landmarks: Landmark[], faceWidth: number, now: number) {
+    const points = JITTER_POINTS.map((i) => landmarks[i]);
+    const last = this.lastPoints;
+    if (last && now - this.lastTime <= JITTER_GAP_MS && faceWidth > 0) {
+      const moved =
+        points.reduce((sum, p, i) => sum + dist2D(p, last[i]), 0) /
+        points.length /
+        faceWidth;
+      this.jitter += (moved - this.jitter) * JITTER_ALPHA;
+    } else {
+      this.jitter = 0;
+    }
+    this.lastPoints = points;
+    this.lastTime = now;
+    return this.jitter;
+  }
+}
@@ -0,0 +1,75 @@
+import type { FaceLandmarker } from "@mediapipe/tasks-vision";
+import { createFaceLandmarker } from "./createFaceLandmarker";
+import {
+  toDetection,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./detector";
+import { LightingMeter } from "./inputQuality";
+
+// tasks-vision loads its WASM glue with importScripts, which module workers
+// don't support, so evaluate the script in global scope instead
+const workerScope = self as unknown as {
+  importScripts: (...urls: string[]) => void;
+};
+workerScope.importScripts = (...urls: string[]) => {
+  for (const url of urls) {
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", url, false);
+    xhr.send();
+    (0, eval)(xhr.responseText);
+  }
+};
+
+let landmarker: FaceLandmarker | null = null;
+const lightingMeter = new LightingMeter();
+
+function respond(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  switch (request.type) {
+    case "init":
+      try {
+        landmarker = await createFaceLandmarker();
+        respond({ type: "ready" });
+      } catch (err) {
+        respond({
+          type: "error",
+          message:
+            err instanceof Error
+              ? err.message
+              : "Failed to load face landmarker",
+        });
+      }
+      break;
+
+    case "detect": {
+      const { frame, timestamp } = request;
+      try {
+        if (!landmarker) throw new Error("Face landmarker not loaded");
+        const result = landmarker.detectForVideo(frame, timestamp);
+        const detection = toDetection(result, timestamp, (landmarks) =>
+          lightingMeter.measure(frame, frame.width, frame.height, landmarks),
+        );
+        respond({ type: "result", detection });
+      } catch (err) {
+        respond({
+          type: "error",
+          message: err instanceof Error ? err.message : "Detection failed",
+        });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+
+    case "close":
+      landmarker?.close();
+      landmarker = null;
+      break;
+  }
+};
@@ -0,0 +1,113 @@
+import type { Thresholds } from "./thresholds";
+import { EventEmitter } from "./eventEmitter";
+
+export type PresenceInterval = {
+  state: "atDesk" | "away";
+  start: number; // epoch ms
+  end: number; // epoch ms
+  durationMs: number;
+};
+
+export type PresenceTrackerEvents = {
+  presenceChange: { isPresent: boolean; time: number };
+  intervalEnd: { interval: PresenceInterval };
+  breakDue: { time: number; atScreenMs: number };
+};
+
+/**
+ * Presence from face detection: "away" once the user's face hasn't been
+ * seen for `thresholds.awayGraceMs`, with at-desk and away intervals for the
+ * history and a break reminder after `breakReminderMinutes` at the screen.
+ * Only an absence of at least `minBreakMinutes` counts as a break.
+ */
+export class PresenceTracker extends EventEmitter<PresenceTrackerEvents> {
+  private thresholds: Thresholds;
+  private present = false;
+  private lastSeen = -Infinity;
+  private intervalStart: number | null = null; // of the current interval
+  private leftAt: number | null = null; // when the user was last seen leaving
+  private screenSince: number | null = null; // continuous time at the screen
+  private lastReminder: number | null = null;
+
+  constructor(thresholds: Thresholds) {
+    super();
+    this.thresholds = thresholds;
+  }
+
+  get isPresent() {
+    return this.present;
+  }
+
+  setThresholds(thresholds: Thresholds) {
+    this.thresholds = thresholds;
+  }
+
+  // Call once per processed frame, with or without a face
+  update(hasFace: boolean, now: number) {
+    if (hasFace) {
+      if (!this.present) this.arrive(now);
+      this.lastSeen = now;
+      this.checkBreak(now);
+    } else if (
+      this.present &&
+      now - this.lastSeen >= this.thresholds.awayGraceMs
+    ) {
+      this.leave(this.lastSeen);
+    }
+  }
+
+  // Closes the open interval (e.g. when the camera stops). Screen time
+  // carries over unless the gap turns out to be long enough for a break.
+  reset(now: number) {
+    if (this.present) {
+      this.endInterval("atDesk", this.lastSeen);
+      this.present = false;
+      this.leftAt = this.lastSeen;
+      this.emit("presenceChange", { isPresent: false, time: this.lastSeen });
+    } else if (this.intervalStart !== null) {
+      this.endInterval("away", now);
+    }
+    this.intervalStart = null;
+  }
+
+  private arrive(now: number) {
+    if (this.intervalStart !== null) this.endInterval("away", now);
+
+    const breakMs = this.thresholds.minBreakMinutes * 60_000;
+    if (this.leftAt === null || now - this.leftAt >= breakMs) {
+      this.screenSince = now;
+      this.lastReminder = null;
+    }
+
+    this.present = true;
+    this.leftAt = null;
+    this.intervalStart = now;
+    this.emit("presenceChange", { isPresent: true, time: now });
+  }
+
+  private leave(time: number) {
+    this.endInterval("atDesk", time);
+    this.present = false;
+    this.leftAt = time;
+    this.intervalStart = time;
+    this.emit("presenceChange", { isPresent: false, time });
+  }
+
+  private checkBreak(now: number) {
+    if (this.screenSince === null) return;
+    const since = Math.max(this.screenSince, this.lastReminder ?? -Infinity);
+    if (now - since >= this.thresholds.breakReminderMinutes * 60_000) {
+      this.lastReminder = now;
+      this.emit("breakDue", { time: now, atScreenMs: now - this.screenSince });
+    }
+  }
+
+  private endInterval(state: PresenceInterval["state"], end: number) {
+    const start = this.intervalStart;
+    this.intervalStart = null;
+    if (start === null || end <= start) return;
+    this.emit("intervalEnd", {
+      interval: { state, start, end, durationMs: end - start },
+    });
+  }
+}
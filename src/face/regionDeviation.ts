@@ -0,0 +1,66 @@
+import { isMouthShut } from "./classify";
+import type { Signals } from "./computeSignals";
+import type { Thresholds } from "./thresholds";
+
+// Face areas drawn by the diagnostic overlay
+export type OverlayRegion = "brows" | "eyes" | "cheeks" | "mouth" | "jaw";
+
+export const OVERLAY_REGIONS: OverlayRegion[] = [
+  "brows",
+  "eyes",
+  "cheeks",
+  "mouth",
+  "jaw",
+];
+
+// Deviation from neutral per region, scaled so 0 is the baseline and 1 is
+// the point where that region counts as tense (or, for cheeks, smiling)
+export type RegionDeviations = Record<OverlayRegion, number>;
+
+// How far a ratio has moved from 1 towards `threshold` (either direction)
+function ratioProgress(value: number, neutral: number, threshold: number) {
+  if (!neutral || threshold === 1) return 0;
+  return Math.max(0, (value / neutral - 1) / (threshold - 1));
+}
+
+function deltaProgress(value: number, neutral: number, threshold: number) {
+  return threshold > 0 ? Math.max(0, (value - neutral) / threshold) : 0;
+}
+
+export function regionDeviations(
+  signals: Signals,
+  neutral: Signals,
+  thresholds: Thresholds,
+): RegionDeviations {
+  const delta = thresholds.blendshapeTensionDelta;
+  return {
+    brows: Math.max(
+      ratioProgress(
+        signals.browInnerDist,
+        neutral.browInnerDist,
+        thresholds.tension,
+      ),
+      deltaProgress(signals.browDown, neutral.browDown, delta),
+    ),
+    eyes: Math.max(
+      ratioProgress(signals.eyeOpenAvg, neutral.eyeOpenAvg, thresholds.tension),
+      deltaProgress(signals.eyeSquint, neutral.eyeSquint, delta),
+    ),
+    cheeks: ratioProgress(
+      signals.cheekRaise,
+      neutral.cheekRaise,
+      thresholds.smileCheekRaise,
+    ),
+    mouth: Math.max(
+      ratioProgress(
+        signals.lipThickness,
+        neutral.lipThickness,
+        thresholds.lipPress,
+      ),
+      deltaProgress(signals.mouthPress, neutral.mouthPress, delta),
+    ),
+    jaw: isMouthShut(signals, neutral, thresholds)
+      ? ratioProgress(signals.jawWidth, neutral.jawWidth, thresholds.jawClench)
+      : 0,
+  };
+}
@@ -0,0 +1,137 @@
+import type { Signals } from "./computeSignals";
+import {
+  detectTenseRegions,
+  TENSION_REGIONS,
+  type TensionRegion,
+} from "./classify";
+import type { Thresholds } from "./thresholds";
+
+const RELAXED_HOLD_MS = 2_000; // a region must stay relaxed this long
+
+export const RELAXATION_PROMPTS: Record<TensionRegion, string> = {
+  brows: "Drop your brows",
+  eyes: "Soften your eyes",
+  lips: "Let your lips rest",
+  jaw: "Unclench your jaw",
+};
+
+export type RelaxationRecord = {
+  start: number; // epoch ms
+  end: number; // epoch ms
+  durationMs: number;
+  regions: TensionRegion[]; // steps in the exercise
+  relaxedRegions: TensionRegion[]; // steps confirmed by the signals
+  completed: boolean; // every step confirmed
+  timeToBaselineMs: number | null; // until no region was tense; null if never
+};
+
+export type RelaxationState = {
+  region: TensionRegion | null; // current step; null once complete
+  prompt: string;
+  step: number; // 0-based index into `regions`
+  regions: TensionRegion[];
+  relaxedRegions: TensionRegion[];
+  tenseRegions: TensionRegion[]; // on the latest frame
+  holdProgress: number; // 0..1 towards confirming the current step
+  isComplete: boolean;
+};
+
+/**
+ * A guided relaxation exercise: one prompt per region, each confirmed only
+ * once the live signals hold that region back at the calibrated neutral
+ * (by the stricter exit thresholds) for a couple of seconds.
+ */
+export class RelaxationSession {
+  private readonly neutral: Signals;
+  private readonly thresholds: Thresholds;
+  private readonly regions: TensionRegion[];
+  private readonly start: number;
+  private step = 0;
+  private relaxedSince: number | null = null;
+  private relaxed: TensionRegion[] = [];
+  private tense: TensionRegion[] = [];
+  private baselineAt: number | null = null;
+  private lastTime: number;
+
+  // regions: the ones that triggered the alert; all of them when empty
+  constructor(
+    neutral: Signals,
+    thresholds: Thresholds,
+    regions: TensionRegion[],
+    now: number,
+  ) {
+    this.neutral = neutral;
+    this.thresholds = thresholds;
+    this.regions = TENSION_REGIONS.filter(
+      (r) => regions.length === 0 || regions.includes(r),
+    );
+    this.start = now;
+    this.lastTime = now;
+  }
+
+  process(signals: Signals, now: number): RelaxationState {
+    this.lastTime = now;
+    this.tense = detectTenseRegions(
+      signals,
+      this.neutral,
+      this.thresholds,
+      TENSION_REGIONS,
+    );
+    if (this.tense.length === 0) this.baselineAt ??= now;
+
+    const region = this.regions[this.step];
+    if (region) {
+      if (this.tense.includes(region)) {
+        this.relaxedSince = null;
+      } else {
+        this.relaxedSince ??= now;
+        if (now - this.relaxedSince >= RELAXED_HOLD_MS) {
+          this.relaxed.push(region);
+          this.nextStep();
+        }
+      }
+    }
+
+    return this.getState(now);
+  }
+
+  // Moves on without confirming the current step
+  skipStep() {
+    this.nextStep();
+  }
+
+  getState(now = this.lastTime): RelaxationState {
+    const region = this.regions[this.step] ?? null;
+    return {
+      region,
+      prompt: region ? RELAXATION_PROMPTS[region] : "Nicely done",
+      step: this.step,
+      regions: this.regions,
+      relaxedRegions: [...this.relaxed],
+      tenseRegions: this.tense,
+      holdProgress:
+        this.relaxedSince === null
+          ? 0
+          : Math.min(1, (now - this.relaxedSince) / RELAXED_HOLD_MS),
+      isComplete: region === null,
+    };
+  }
+
+  finish(now: number): RelaxationRecord {
+    return {
+      start: this.start,
+      end: now,
+      durationMs: now - this.start,
+      regions: this.regions,
+      relaxedRegions: [...this.relaxed],
+      completed: this.relaxed.length === this.regions.length,
+      timeToBaselineMs:
+        this.baselineAt === null ? null : this.baselineAt - this.start,
+    };
+  }
+
+  private nextStep() {
+    this.step++;
+    this.relaxedSince = null;
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { SYNTHETIC_CLIPS } from "./fixtures/syntheticClips";
+import { replayRecording, type ReplayResult } from "./replay";
+import {
+  decodeFrame,
+  parseRecording,
+  RECORDING_VERSION,
+  type LandmarkRecording,
+} from "./sessionRecording";
+
+// Recordings exported from the session recorder; drop a clip in
+// fixtures/recordings/ and its label decides what the replay must show
+const RECORDED_CLIPS = import.meta.glob<string>(
+  "./fixtures/recordings/*.json",
+  {
+    query: "?raw",
+    import: "default",
+    eager: true,
+  },
+);
+
+// What a clip's label promises about its replay, matched in order
+const EXPECTATIONS: {
+  label: RegExp;
+  check: (result: ReplayResult) => void;
+}[] = [
+  {
+    label: /relaxed|neutral/i,
+    check: (result) => {
+      expect(result.alertCount).toBe(0);
+      expect(result.tenseFrames).toBe(0);
+    },
+  },
+  {
+    label: /smil/i,
+    check: (result) => {
+      expect(result.smileFrames).toBeGreaterThan(0);
+      expect(result.alertCount).toBe(0);
+    },
+  },
+  {
+    label: /talk/i,
+    check: (result) => {
+      expect(result.talkingFrames).toBeGreaterThan(0);
+      expect(result.alertCount).toBe(0);
+    },
+  },
+  {
+    label: /turn|looking away/i,
+    check: (result) => {
+      expect(result.headTurnedFrames).toBeGreaterThan(0);
+      expect(result.alertCount).toBe(0);
+    },
+  },
+  {
+    label: /tense|furrow|clench|squint/i,
+    check: (result) => {
+      expect(result.tenseFrames).toBeGreaterThan(0);
+      expect(result.alertCount).toBeGreaterThan(0);
+    },
+  },
+];
+
+const clips: [string, string][] = [
+  ...SYNTHETIC_CLIPS.map((clip): [string, string] => [
+    `synthetic: ${clip.label}`,
+    JSON.stringify(clip),
+  ]),
+  ...Object.entries(RECORDED_CLIPS),
+];
+
+describe("labeled clips", () => {
+  it("has recorded clips to replay", () => {
+    expect(Object.keys(RECORDED_CLIPS).length).toBeGreaterThan(0);
+  });
+
+  it.each(clips)("%s", (_, json) => {
+    const recording = parseRecording(json);
+    const expectation = EXPECTATIONS.find(({ label }) =>
+      label.test(recording.label),
+    );
+    if (!expectation) {
+      throw new Error(`No expectation for label "${recording.label}"`);
+    }
+    expectation.check(replayRecording(recording));
+  });
+});
+
+describe("parseRecording", () => {
+  const furrowed = SYNTHETIC_CLIPS.find((clip) =>
+    clip.label.includes("furrow"),
+  )!;
+
+  // Drops keys the way a recording made before they existed would lack them
+  function withoutKeys(
+    recording: LandmarkRecording,
+    thresholdKeys: string[],
+    neutralKeys: string[],
+  ) {
+    const data = JSON.parse(JSON.stringify(recording));
+    for (const key of thresholdKeys) delete data.thresholds[key];
+    for (const key of neutralKeys) delete data.neutral[key];
+    return JSON.stringify(data);
+  }
+
+  it("fills thresholds missing from older recordings with defaults", () => {
+    const recording = parseRecording(
+      withoutKeys(
+        furrowed,
+        ["hysteresis", "maxYawDeg", "talkingMouthStd", "minInputQuality"],
+        [],
+      ),
+    );
+    expect(recording.thresholds).toEqual(furrowed.thresholds);
+    expect(replayRecording(recording).alertCount).toBeGreaterThan(0);
+  });
+
+  it("migrates a baseline recorded before head pose and per-eye signals", () => {
+    const recording = parseRecording(
+      withoutKeys(
+        furrowed,
+        [],
+        ["headYaw", "headPitch", "headRoll", "leftEyeOpen", "rightEyeOpen"],
+      ),
+    );
+    expect(recording.neutral).toMatchObject({
+      headYaw: 0,
+      leftEyeOpen: furrowed.neutral!.eyeOpenAvg,
+    });
+    expect(replayRecording(recording).alertCount).toBeGreaterThan(0);
+  });
+
+  it("rejects a baseline with signals it can't derive", () => {
+    expect(() =>
+      parseRecording(withoutKeys(furrowed, [], ["browInnerDist"])),
+    ).toThrow(/baseline is missing browInnerDist/);
+  });
+
+  it("reads a version 1 recording with every landmark", () => {
+    const v1 = {
+      ...furrowed,
+      version: 1,
+      landmarkIndices: undefined,
+      frames: furrowed.frames.map((frame) => {
+        const landmarks = decodeFrame(furrowed, frame).landmarks!;
+        return {
+          ...frame,
+          landmarks: Array.from({ length: 478 }, (_, i) => {
+            const pt = landmarks[i] ?? { x: 0.5, y: 0.5, z: 0 };
+            return [pt.x, pt.y, pt.z ?? 0].map((v) => Math.round(v * 10_000));
+          }).flat(),
+        };
+      }),
+    };
+
+    const recording = parseRecording(JSON.stringify(v1));
+    expect(recording.landmarkIndices).toHaveLength(478);
+    expect(replayRecording(recording).alertCount).toBeGreaterThan(0);
+  });
+
+  it("rejects an unsupported version", () => {
+    expect(() =>
+      parseRecording(
+        JSON.stringify({ ...furrowed, version: RECORDING_VERSION + 1 }),
+      ),
+    ).toThrow(/Unsupported recording version/);
+  });
+});
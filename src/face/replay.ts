@@ -0,0 +1,105 @@
+import { computeSignals, type Signals } from "./computeSignals";
+import type { Classification } from "./classify";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  SignalFilter,
+  type FilterSettings,
+} from "./signalFilter";
+import { decodeFrame, type LandmarkRecording } from "./sessionRecording";
+import { TensionEngine, type TensionEpisode } from "./tensionEngine";
+import type { Thresholds } from "./thresholds";
+
+export type ReplayFrame = {
+  time: number; // epoch ms
+  signals: Signals | null; // filtered; null when no face was found
+  classification: Classification | null; // null before calibration
+};
+
+export type ReplayResult = {
+  neutral: Signals | null;
+  frames: ReplayFrame[];
+  episodes: TensionEpisode[];
+  alertCount: number;
+  faceFrames: number;
+  smileFrames: number;
+  talkingFrames: number;
+  headTurnedFrames: number;
+  tenseFrames: number;
+};
+
+/**
+ * Replays a landmark recording through `computeSignals`, the signal filter
+ * and the engine, without a camera. Uses the recording's baseline, thresholds
+ * and filter settings unless overridden; with no baseline, calibrates on the
+ * start of the clip.
+ */
+export function replayRecording(
+  recording: LandmarkRecording,
+  options: {
+    thresholds?: Thresholds;
+    neutral?: Signals | null;
+    filterSettings?: FilterSettings;
+  } = {},
+): ReplayResult {
+  const thresholds = options.thresholds ?? recording.thresholds;
+  const initialNeutral =
+    options.neutral !== undefined ? options.neutral : recording.neutral;
+
+  const filter = new SignalFilter(
+    options.filterSettings ??
+      recording.filterSettings ??
+      DEFAULT_FILTER_SETTINGS,
+  );
+  const engine = new TensionEngine(thresholds, initialNeutral);
+  const result: ReplayResult = {
+    neutral: initialNeutral,
+    frames: [],
+    episodes: [],
+    alertCount: 0,
+    faceFrames: 0,
+    smileFrames: 0,
+    talkingFrames: 0,
+    headTurnedFrames: 0,
+    tenseFrames: 0,
+  };
+
+  engine.on("calibrationComplete", ({ neutral }) => {
+    result.neutral = neutral;
+  });
+  engine.on("tensionEnd", ({ episode }) => result.episodes.push(episode));
+  engine.on("alertDue", () => {
+    result.alertCount++;
+    engine.markAlertFired();
+  });
+
+  if (!initialNeutral) engine.startCalibration(recording.startedAt);
+
+  let lastTime = recording.startedAt;
+  for (const frame of recording.frames) {
+    const { time, landmarks, blendshapes, transformationMatrix } = decodeFrame(
+      recording,
+      frame,
+    );
+    lastTime = time;
+
+    const raw = landmarks
+      ? computeSignals(landmarks, blendshapes, transformationMatrix)
+      : null;
+    if (!raw) filter.reset();
+    const signals = raw ? filter.apply(raw, time) : null;
+    const classification =
+      raw && signals ? engine.process(signals, time, raw) : null;
+
+    result.frames.push({ time, signals, classification });
+    if (signals) result.faceFrames++;
+    if (classification?.isSmiling) result.smileFrames++;
+    if (classification?.isTalking) result.talkingFrames++;
+    if (classification?.isHeadTurned) result.headTurnedFrames++;
+    if (classification?.isTense) result.tenseFrames++;
+  }
+
+  // Close any episode still open at the end of the clip
+  engine.reset(lastTime);
+
+  return result;
+}
@@ -0,0 +1,165 @@
+import type { Landmark } from "./landmarks";
+import { SIGNAL_BLENDSHAPES, type Blendshape } from "./blendshapes";
+import { migrateNeutral, type Signals } from "./computeSignals";
+import { FACE_LM } from "./indices";
+import { sanitizeThresholds, type Thresholds } from "./thresholds";
+import { sanitizeFilterSettings, type FilterSettings } from "./signalFilter";
+
+/**
+ * Compact landmark session format, version 2.
+ * Only the landmarks and blendshapes `computeSignals` reads are kept, listed
+ * once in `landmarkIndices` and `blendshapeNames`. Coordinates are quantized
+ * to 1e-4 and flattened as [x, y, z, x, y, z, …] in `landmarkIndices` order;
+ * blendshape scores are quantized the same way, in `blendshapeNames` order.
+ * A frame with an empty `landmarks` array means no face was found.
+ * `matrix` (the facial transformation matrix, quantized the same way) is
+ * optional; older recordings don't have it.
+ *
+ * Version 1 kept all 478 landmarks and every blendshape; it's read as a
+ * version 2 recording listing every landmark.
+ */
+export const RECORDING_VERSION = 2;
+const QUANTIZE = 10_000;
+const V1_LANDMARK_COUNT = 478;
+
+// Landmarks computeSignals reads, the only ones recorded
+const SIGNAL_LANDMARKS: number[] = Object.values(FACE_LM);
+
+export type RecordedFrame = {
+  t: number; // ms since recording start
+  landmarks: number[];
+  blendshapes: number[];
+  matrix?: number[];
+};
+
+export type LandmarkRecording = {
+  version: typeof RECORDING_VERSION;
+  startedAt: number; // epoch ms
+  label: string; // e.g. "smiling", "talking", "squinting at screen"
+  neutral: Signals | null; // baseline in use while recording
+  thresholds: Thresholds; // thresholds in use while recording
+  filterSettings?: FilterSettings; // signal filtering in use while recording
+  landmarkIndices: number[];
+  blendshapeNames: string[];
+  frames: RecordedFrame[];
+};
+
+export type DecodedFrame = {
+  time: number; // epoch ms
+  landmarks: Landmark[] | null; // sparse: only the recorded indices are set
+  blendshapes: Blendshape[];
+  transformationMatrix: number[] | undefined;
+};
+
+const quantize = (v: number) => Math.round(v * QUANTIZE);
+
+export function createRecording(
+  startedAt: number,
+  neutral: Signals | null,
+  thresholds: Thresholds,
+  label = "",
+  filterSettings?: FilterSettings,
+): LandmarkRecording {
+  return {
+    version: RECORDING_VERSION,
+    startedAt,
+    label,
+    neutral,
+    thresholds,
+    filterSettings,
+    landmarkIndices: SIGNAL_LANDMARKS,
+    blendshapeNames: [],
+    frames: [],
+  };
+}
+
+export function appendFrame(
+  recording: LandmarkRecording,
+  time: number,
+  landmarks: Landmark[] | undefined,
+  blendshapes: Blendshape[] | undefined,
+  transformationMatrix?: number[],
+): void {
+  // Category order is fixed by the model, so record it once
+  if (recording.blendshapeNames.length === 0 && blendshapes?.length) {
+    recording.blendshapeNames = blendshapes
+      .map((b) => b.categoryName)
+      .filter((name) => SIGNAL_BLENDSHAPES.includes(name));
+  }
+
+  const flat: number[] = [];
+  if (landmarks?.length) {
+    for (const index of recording.landmarkIndices) {
+      const pt = landmarks[index];
+      flat.push(quantize(pt.x), quantize(pt.y), quantize(pt.z ?? 0));
+    }
+  }
+
+  const scores = new Map(blendshapes?.map((b) => [b.categoryName, b.score]));
+  recording.frames.push({
+    t: time - recording.startedAt,
+    landmarks: flat,
+    blendshapes: blendshapes?.length
+      ? recording.blendshapeNames.map((name) => quantize(scores.get(name) ?? 0))
+      : [],
+    matrix: transformationMatrix?.map(quantize),
+  });
+}
+
+export function decodeFrame(
+  recording: LandmarkRecording,
+  frame: RecordedFrame,
+): DecodedFrame {
+  let landmarks: Landmark[] | null = null;
+  if (frame.landmarks.length > 0) {
+    const points: Landmark[] = [];
+    recording.landmarkIndices.forEach((index, i) => {
+      points[index] = {
+        x: frame.landmarks[3 * i] / QUANTIZE,
+        y: frame.landmarks[3 * i + 1] / QUANTIZE,
+        z: frame.landmarks[3 * i + 2] / QUANTIZE,
+      };
+    });
+    landmarks = points;
+  }
+
+  return {
+    time: recording.startedAt + frame.t,
+    landmarks,
+    blendshapes: frame.blendshapes.map((score, i) => ({
+      categoryName: recording.blendshapeNames[i] ?? "",
+      score: score / QUANTIZE,
+    })),
+    transformationMatrix: frame.matrix?.map((v) => v / QUANTIZE),
+  };
+}
+
+export function parseRecording(json: string): LandmarkRecording {
+  const data = JSON.parse(json) as Partial<
+    Omit<LandmarkRecording, "version">
+  > & { version?: number };
+  if (data.version !== RECORDING_VERSION && data.version !== 1) {
+    throw new Error(
+      `Unsupported recording version: ${String(data.version)} (expected ${RECORDING_VERSION})`,
+    );
+  }
+  if (!Array.isArray(data.frames) || typeof data.startedAt !== "number") {
+    throw new Error("Malformed recording: missing frames or start time");
+  }
+  return {
+    ...data,
+    version: RECORDING_VERSION,
+    label: typeof data.label === "string" ? data.label : "",
+    neutral: data.neutral ? migrateNeutral(data.neutral) : null,
+    // Older recordings predate some thresholds; those fall back to defaults
+    thresholds: sanitizeThresholds(data.thresholds ?? {}),
+    filterSettings:
+      data.filterSettings && sanitizeFilterSettings(data.filterSettings),
+    landmarkIndices: Array.isArray(data.landmarkIndices)
+      ? data.landmarkIndices
+      : Array.from({ length: V1_LANDMARK_COUNT }, (_, i) => i),
+    blendshapeNames: Array.isArray(data.blendshapeNames)
+      ? data.blendshapeNames
+      : [],
+  } as LandmarkRecording;
+}
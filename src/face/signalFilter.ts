@@ -0,0 +1,189 @@
+import type { Signals } from "./computeSignals";
+
+export type FilterKind = "none" | "oneEuro" | "ema" | "median";
+
+export const FILTER_KINDS: Record<FilterKind, string> = {
+  none: "None (raw)",
+  oneEuro: "One Euro",
+  ema: "Exponential moving average",
+  median: "Moving median",
+};
+
+export type FilterSettings = {
+  kind: FilterKind; // used for every signal without an override
+  overrides: Partial<Record<keyof Signals, FilterKind>>;
+  emaAlpha: number; // 0..1, higher follows the input more closely
+  medianWindow: number; // frames
+  minCutoffHz: number; // One Euro: smoothing when the signal is still
+  beta: number; // One Euro: how fast the cutoff rises with speed
+};
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  kind: "oneEuro",
+  overrides: {},
+  emaAlpha: 0.3,
+  medianWindow: 5,
+  minCutoffHz: 1,
+  beta: 0.5,
+};
+
+type NumericFilterSetting = Exclude<keyof FilterSettings, "kind" | "overrides">;
+
+// Allowed ranges for the settings panel
+export const FILTER_LIMITS: Record<
+  NumericFilterSetting,
+  { label: string; min: number; max: number; step: number }
+> = {
+  emaAlpha: { label: "EMA smoothing factor", min: 0.01, max: 1, step: 0.01 },
+  medianWindow: { label: "Median window (frames)", min: 3, max: 31, step: 2 },
+  minCutoffHz: {
+    label: "One Euro min cutoff (Hz)",
+    min: 0.05,
+    max: 10,
+    step: 0.05,
+  },
+  beta: { label: "One Euro speed coefficient", min: 0, max: 10, step: 0.1 },
+};
+
+const isFilterKind = (value: unknown): value is FilterKind =>
+  typeof value === "string" && value in FILTER_KINDS;
+
+// Drops unknown kinds and out-of-range values from stored settings
+export function sanitizeFilterSettings(
+  stored: Partial<FilterSettings>,
+): FilterSettings {
+  const settings: FilterSettings = {
+    ...DEFAULT_FILTER_SETTINGS,
+    kind: isFilterKind(stored.kind)
+      ? stored.kind
+      : DEFAULT_FILTER_SETTINGS.kind,
+    overrides: {},
+  };
+
+  for (const [key, kind] of Object.entries(stored.overrides ?? {})) {
+    if (isFilterKind(kind)) settings.overrides[key as keyof Signals] = kind;
+  }
+  for (const key of Object.keys(FILTER_LIMITS) as NumericFilterSetting[]) {
+    const value = stored[key];
+    const { min, max } = FILTER_LIMITS[key];
+    if (typeof value === "number" && value >= min && value <= max) {
+      settings[key] = value;
+    }
+  }
+
+  return settings;
+}
+
+interface ScalarFilter {
+  next(value: number, now: number): number;
+}
+
+function createEma(alpha: number): ScalarFilter {
+  let previous: number | null = null;
+  return {
+    next(value) {
+      previous =
+        previous === null ? value : previous + alpha * (value - previous);
+      return previous;
+    },
+  };
+}
+
+function createMedian(windowSize: number): ScalarFilter {
+  const window: number[] = [];
+  return {
+    next(value) {
+      window.push(value);
+      if (window.length > windowSize) window.shift();
+      const sorted = [...window].sort((a, b) => a - b);
+      const mid = sorted.length >> 1;
+      return sorted.length % 2
+        ? sorted[mid]
+        : (sorted[mid - 1] + sorted[mid]) / 2;
+    },
+  };
+}
+
+// Casiez et al., "1€ Filter" (CHI 2012): a low-pass filter whose cutoff
+// rises with the signal's speed, so jitter is smoothed but real moves aren't
+function createOneEuro(minCutoffHz: number, beta: number): ScalarFilter {
+  const DERIVATIVE_CUTOFF_HZ = 1;
+  const smoothing = (cutoffHz: number, dt: number) =>
+    1 / (1 + 1 / (2 * Math.PI * cutoffHz * dt));
+
+  let previous: { value: number; derivative: number; time: number } | null =
+    null;
+  return {
+    next(value, now) {
+      if (!previous || now <= previous.time) {
+        previous = { value, derivative: 0, time: now };
+        return value;
+      }
+      const dt = (now - previous.time) / 1000;
+      const rawDerivative = (value - previous.value) / dt;
+      const aD = smoothing(DERIVATIVE_CUTOFF_HZ, dt);
+      const derivative =
+        previous.derivative + aD * (rawDerivative - previous.derivative);
+      const cutoff = minCutoffHz + beta * Math.abs(derivative);
+      const a = smoothing(cutoff, dt);
+      const filtered = previous.value + a * (value - previous.value);
+      previous = { value: filtered, derivative, time: now };
+      return filtered;
+    },
+  };
+}
+
+function createScalarFilter(
+  kind: Exclude<FilterKind, "none">,
+  settings: FilterSettings,
+): ScalarFilter {
+  switch (kind) {
+    case "ema":
+      return createEma(settings.emaAlpha);
+    case "median":
+      return createMedian(settings.medianWindow);
+    case "oneEuro":
+      return createOneEuro(settings.minCutoffHz, settings.beta);
+  }
+}
+
+/**
+ * Per-signal temporal filtering between `computeSignals` and detection.
+ * Feed it frames in time order; `reset` when the face is lost so stale
+ * state doesn't bleed into the next sighting.
+ */
+export class SignalFilter {
+  private settings: FilterSettings;
+  private filters = new Map<keyof Signals, ScalarFilter>();
+
+  constructor(settings: FilterSettings = DEFAULT_FILTER_SETTINGS) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: FilterSettings) {
+    this.settings = settings;
+    this.filters.clear();
+  }
+
+  reset() {
+    this.filters.clear();
+  }
+
+  apply(signals: Signals, now: number): Signals {
+    const filtered = { ...signals };
+
+    for (const key of Object.keys(signals) as (keyof Signals)[]) {
+      const kind = this.settings.overrides[key] ?? this.settings.kind;
+      if (kind === "none") continue;
+
+      let filter = this.filters.get(key);
+      if (!filter) {
+        filter = createScalarFilter(kind, this.settings);
+        this.filters.set(key, filter);
+      }
+      filtered[key] = filter.next(signals[key], now);
+    }
+
+    return filtered;
+  }
+}
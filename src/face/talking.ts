@@ -0,0 +1,50 @@
+import type { Signals } from "./computeSignals";
+
+const TALKING_WINDOW_MS = 1_500;
+const MIN_WINDOW_SPAN_MS = 1_000; // the samples must cover at least this long
+const MIN_WINDOW_SAMPLES = 3;
+
+/**
+ * Detects speech from how much the mouth opening varies over a short window;
+ * a held-open or shut mouth varies little, talking a lot. Optional voice
+ * activity (from the local microphone) lets softer mouth movement count too.
+ * Samples age out of the window, so gaps with no face need no reset. The
+ * minimum is a time span rather than a frame count, so the sparse frames of
+ * a hidden tab (e.g. during a video call) still count.
+ * Feed it unfiltered signals; smoothing damps the movement it measures.
+ */
+export class TalkingDetector {
+  private samples: { time: number; mouthOpen: number }[] = [];
+  private voiceActive = false;
+
+  setVoiceActive(active: boolean) {
+    this.voiceActive = active;
+  }
+
+  // std: mouth-opening standard deviation that counts as talking
+  update(signals: Signals, now: number, std: number): boolean {
+    this.samples.push({ time: now, mouthOpen: signals.mouthOpen });
+    while (
+      this.samples.length &&
+      now - this.samples[0].time > TALKING_WINDOW_MS
+    ) {
+      this.samples.shift();
+    }
+    if (
+      this.samples.length < MIN_WINDOW_SAMPLES ||
+      now - this.samples[0].time < MIN_WINDOW_SPAN_MS
+    ) {
+      return false;
+    }
+
+    const mean =
+      this.samples.reduce((sum, s) => sum + s.mouthOpen, 0) /
+      this.samples.length;
+    const variance =
+      this.samples.reduce((sum, s) => sum + (s.mouthOpen - mean) ** 2, 0) /
+      this.samples.length;
+    const threshold = this.voiceActive ? std / 2 : std;
+
+    return Math.sqrt(variance) > threshold;
+  }
+}
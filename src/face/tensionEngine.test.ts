@@ -0,0 +1,398 @@
+import { describe, expect, it } from "vitest";
+import { baselineDrift } from "./adaptiveBaseline";
+import { EMPTY_BLENDSHAPE_SIGNALS } from "./blendshapes";
+import type { Classification } from "./classify";
+import type { Signals } from "./computeSignals";
+import { TensionEngine, type TensionEngineEvents } from "./tensionEngine";
+import { DEFAULT_THRESHOLDS, type Thresholds } from "./thresholds";
+
+const FRAME_MS = 100;
+
+const NEUTRAL: Signals = {
+  eyeOpenAvg: 0.06,
+  leftEyeOpen: 0.06,
+  rightEyeOpen: 0.06,
+  browInnerDist: 0.2,
+  mouthWidth: 0.4,
+  mouthCornerLift: 0.01,
+  cheekRaise: 0.3,
+  lipThickness: 0.05,
+  mouthOpen: 0.01,
+  jawWidth: 0.9,
+  headRotation: 0,
+  ...EMPTY_BLENDSHAPE_SIGNALS,
+  headYaw: 0,
+  headPitch: 0,
+  headRoll: 0,
+};
+
+// Brows 20% closer than neutral: past the default 0.9 tension ratio
+const TENSE: Partial<Signals> = { browInnerDist: 0.16 };
+
+function frame(patch: Partial<Signals> = {}): Signals {
+  return { ...NEUTRAL, ...patch };
+}
+
+// Alternating mouth opening, like speech (std 0.02)
+function talking(patch: Partial<Signals> = {}) {
+  return (t: number) =>
+    frame({ ...patch, mouthOpen: (t / FRAME_MS) % 2 ? 0.05 : 0.01 });
+}
+
+// Feeds one frame every FRAME_MS over [from, to) and returns the results
+function feed(
+  engine: TensionEngine,
+  from: number,
+  to: number,
+  signals: Signals | ((t: number) => Signals),
+): (Classification | null)[] {
+  const results: (Classification | null)[] = [];
+  for (let t = from; t < to; t += FRAME_MS) {
+    results.push(
+      engine.process(typeof signals === "function" ? signals(t) : signals, t),
+    );
+  }
+  return results;
+}
+
+function collect<K extends keyof TensionEngineEvents>(
+  engine: TensionEngine,
+  type: K,
+): TensionEngineEvents[K][] {
+  const events: TensionEngineEvents[K][] = [];
+  engine.on(type, (event) => events.push(event));
+  return events;
+}
+
+function calibrated(thresholds: Thresholds = DEFAULT_THRESHOLDS) {
+  return new TensionEngine(thresholds, NEUTRAL);
+}
+
+describe("TensionEngine calibration", () => {
+  it("reports progress and averages the samples into the neutral", () => {
+    const engine = new TensionEngine(DEFAULT_THRESHOLDS);
+    const progress = collect(engine, "calibrationProgress");
+    const complete = collect(engine, "calibrationComplete");
+
+    engine.startCalibration(0);
+    expect(engine.isCalibrating).toBe(true);
+    const results = feed(engine, 0, 10_000, (t) =>
+      frame({ browInnerDist: t < 5_000 ? 0.2 : 0.22 }),
+    );
+    expect(results.every((r) => r === null)).toBe(true);
+    expect(complete).toHaveLength(0);
+
+    engine.process(frame(), 10_000);
+
+    expect(engine.isCalibrating).toBe(false);
+    expect(progress[0]).toEqual({ secondsLeft: 10, sampleCount: 1 });
+    expect(progress.at(-1)?.secondsLeft).toBe(0);
+    expect(progress.map((p) => p.sampleCount)).toEqual(
+      [...progress.keys()].map((i) => i + 1),
+    );
+    expect(complete).toHaveLength(1);
+    expect(complete[0].sampleCount).toBe(101);
+    expect(complete[0].neutral?.browInnerDist).toBeCloseTo(0.21, 3);
+    expect(complete[0].thresholds).toBe(DEFAULT_THRESHOLDS);
+    expect(engine.baseline).toEqual(complete[0].neutral);
+  });
+
+  it("keeps the previous neutral when no sample was usable", () => {
+    const engine = calibrated();
+    const complete = collect(engine, "calibrationComplete");
+
+    engine.startCalibration(0);
+    expect(engine.baseline).toBeNull();
+    feed(engine, 0, 10_100, frame({ headYaw: 40 }));
+
+    expect(complete).toEqual([
+      { neutral: null, sampleCount: 0, thresholds: DEFAULT_THRESHOLDS },
+    ]);
+    expect(engine.baseline).toEqual(NEUTRAL);
+  });
+
+  it("skips samples while talking", () => {
+    const engine = new TensionEngine(DEFAULT_THRESHOLDS);
+    const complete = collect(engine, "calibrationComplete");
+
+    engine.startCalibration(0);
+    feed(engine, 0, 10_100, talking());
+
+    // Only the frames before talking was recognized count
+    expect(complete[0].sampleCount).toBeLessThanOrEqual(10);
+  });
+
+  it("skips poor frames and weights the rest by input quality", () => {
+    const engine = new TensionEngine(DEFAULT_THRESHOLDS);
+    const complete = collect(engine, "calibrationComplete");
+
+    engine.startCalibration(0);
+    engine.setInputQuality(0.2);
+    feed(engine, 0, 2_000, frame({ browInnerDist: 0.5 }));
+    engine.setInputQuality(1);
+    feed(engine, 2_000, 6_000, frame({ browInnerDist: 0.2 }));
+    engine.setInputQuality(0.5);
+    feed(engine, 6_000, 10_000, frame({ browInnerDist: 0.23 }));
+    engine.process(frame({ browInnerDist: 0.23 }), 10_000);
+
+    expect(complete[0].sampleCount).toBe(81);
+    expect(complete[0].neutral?.browInnerDist).toBeCloseTo(0.21, 3);
+  });
+});
+
+describe("TensionEngine gating", () => {
+  it("doesn't count a tense face while smiling", () => {
+    const engine = calibrated();
+    const smiles = collect(engine, "smileChange");
+    const starts = collect(engine, "tensionStart");
+
+    const [first] = feed(
+      engine,
+      0,
+      5_000,
+      frame({ ...TENSE, mouthSmile: 0.6 }),
+    );
+
+    expect(first).toMatchObject({
+      isSmiling: true,
+      isTense: false,
+      regions: ["brows"],
+    });
+    expect(smiles).toEqual([{ isSmiling: true, score: 1 }]);
+    expect(starts).toHaveLength(0);
+  });
+
+  it("pauses detection when the head turns away from the calibrated pose", () => {
+    const engine = new TensionEngine(
+      DEFAULT_THRESHOLDS,
+      frame({ headYaw: 20 }),
+    );
+    const turns = collect(engine, "headTurnChange");
+    const starts = collect(engine, "tensionStart");
+
+    // Within maxYawDeg of the calibrated pose, not of facing forward
+    const [within] = feed(engine, 0, 100, frame({ headYaw: 30 }));
+    expect(within?.isHeadTurned).toBe(false);
+
+    const [turned] = feed(engine, 100, 5_000, frame({ ...TENSE, headYaw: 50 }));
+    expect(turned).toMatchObject({ isHeadTurned: true, isTense: false });
+    expect(engine.isHeadTurned).toBe(true);
+    expect(starts).toHaveLength(0);
+
+    feed(engine, 5_000, 5_100, frame({ headYaw: 20 }));
+    expect(turns).toEqual([{ isHeadTurned: true }, { isHeadTurned: false }]);
+  });
+
+  it("pauses detection while talking", () => {
+    const engine = calibrated();
+    const talk = collect(engine, "talkingChange");
+    const starts = collect(engine, "tensionStart");
+    const alerts = collect(engine, "alertDue");
+
+    feed(engine, 0, 2_000, talking());
+    const results = feed(engine, 2_000, 8_000, talking(TENSE));
+
+    expect(talk).toEqual([{ isTalking: true }]);
+    expect(results.every((r) => r?.isTalking && !r.isTense)).toBe(true);
+    expect(starts).toHaveLength(0);
+    expect(alerts).toHaveLength(0);
+  });
+
+  it("recognizes talking at a background-tab frame rate", () => {
+    const engine = calibrated();
+    for (let t = 0; t <= 3_000; t += 500) {
+      engine.process(frame({ mouthOpen: (t / 500) % 2 ? 0.05 : 0.01 }), t);
+    }
+    expect(engine.isTalking).toBe(true);
+  });
+
+  it("lets voice activity count softer mouth movement as talking", () => {
+    const soft = (t: number) =>
+      frame({ mouthOpen: (t / FRAME_MS) % 2 ? 0.024 : 0.01 });
+
+    const silent = calibrated();
+    feed(silent, 0, 2_000, soft);
+    expect(silent.isTalking).toBe(false);
+
+    const speaking = calibrated();
+    speaking.setVoiceActive(true);
+    feed(speaking, 0, 2_000, soft);
+    expect(speaking.isTalking).toBe(true);
+  });
+
+  it("measures talking on the raw frame when the signals are smoothed", () => {
+    const engine = calibrated();
+    for (let t = 0; t < 2_000; t += FRAME_MS) {
+      engine.process(frame(), t, talking()(t));
+    }
+    expect(engine.isTalking).toBe(true);
+  });
+
+  it("pauses detection and ends the episode on poor input", () => {
+    const engine = calibrated();
+    const ends = collect(engine, "tensionEnd");
+    const alerts = collect(engine, "alertDue");
+
+    feed(engine, 0, 2_000, frame(TENSE));
+    engine.setInputQuality(0.2);
+    const results = feed(engine, 2_000, 8_000, frame(TENSE));
+
+    expect(results.every((r) => r === null)).toBe(true);
+    expect(ends.map((e) => e.episode.end)).toEqual([2_000]);
+    expect(alerts).toHaveLength(0);
+  });
+});
+
+describe("TensionEngine episodes and alerts", () => {
+  it("opens an episode on the first tense frame and closes it on release", () => {
+    const engine = calibrated();
+    const starts = collect(engine, "tensionStart");
+    const ends = collect(engine, "tensionEnd");
+
+    feed(engine, 0, 1_000, frame());
+    feed(engine, 1_000, 2_000, frame(TENSE));
+    feed(engine, 2_000, 2_500, frame({ ...TENSE, lipThickness: 0.03 }));
+    feed(engine, 2_500, 3_000, frame());
+
+    expect(starts).toEqual([{ time: 1_000, regions: ["brows"] }]);
+    expect(ends).toEqual([
+      {
+        episode: {
+          start: 1_000,
+          end: 2_500,
+          durationMs: 1_500,
+          regions: ["brows", "lips"],
+          alertFired: false,
+        },
+      },
+    ]);
+  });
+
+  it("fires alertDue after tensionAlertMs and re-arms after each alert", () => {
+    const engine = calibrated();
+    const alerts = collect(engine, "alertDue");
+    const ends = collect(engine, "tensionEnd");
+    engine.on("alertDue", () => engine.markAlertFired());
+
+    feed(engine, 0, 7_000, frame(TENSE));
+    expect(alerts).toEqual([
+      { time: 3_000, regions: ["brows"] },
+      { time: 6_100, regions: ["brows"] },
+    ]);
+
+    engine.reset(7_000);
+    expect(ends).toHaveLength(1);
+    expect(ends[0].episode).toMatchObject({ start: 0, alertFired: true });
+  });
+
+  it("restarts the timer when tension lets up before the alert", () => {
+    const engine = calibrated();
+    const alerts = collect(engine, "alertDue");
+
+    feed(engine, 0, 2_500, frame(TENSE));
+    feed(engine, 2_500, 2_600, frame());
+    feed(engine, 2_600, 5_000, frame(TENSE));
+
+    expect(alerts).toHaveLength(0);
+  });
+
+  it("only releases a region once it's past the hysteresis exit level", () => {
+    const engine = calibrated();
+
+    // Enters below 0.18 (0.9 × neutral), exits above 0.186 with 0.3 hysteresis
+    const [between] = feed(engine, 0, 100, frame({ browInnerDist: 0.183 }));
+    expect(between?.isTense).toBe(false);
+
+    const results = feed(engine, 100, 600, (t) =>
+      frame({ browInnerDist: [0.17, 0.183, 0.185, 0.19, 0.183][t / 100 - 1] }),
+    );
+    expect(results.map((r) => r?.isTense)).toEqual([
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("keeps a clenched jaw tense through mouth-opening jitter around neutral", () => {
+    const engine = calibrated();
+    const starts = collect(engine, "tensionStart");
+    const alerts = collect(engine, "alertDue");
+
+    // Jaw 3% wider than neutral, lip gap jittering around the neutral 0.01
+    const jitter = [0.01, 0.013, 0.008, 0.014, 0.011];
+    const results = feed(engine, 0, 3_500, (t) =>
+      frame({ jawWidth: 0.927, mouthOpen: jitter[(t / FRAME_MS) % 5] }),
+    );
+
+    expect(results.every((r) => r?.regions.includes("jaw"))).toBe(true);
+    expect(starts).toHaveLength(1);
+    expect(alerts).toEqual([{ time: 3_000, regions: ["jaw"] }]);
+  });
+
+  it("only releases the jaw once the mouth opens past the widened tolerance", () => {
+    const engine = calibrated();
+    const clenched = (mouthOpen: number) =>
+      frame({ jawWidth: 0.927, mouthOpen });
+
+    // Shut within 0.005 of neutral to enter, within 0.0065 once tense
+    const results = feed(engine, 0, 500, (t) =>
+      clenched([0.0162, 0.012, 0.0162, 0.017, 0.0162][t / 100]),
+    );
+    expect(results.map((r) => r?.isTense)).toEqual([
+      false,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+});
+
+describe("TensionEngine adaptive baseline", () => {
+  const thresholds = { ...DEFAULT_THRESHOLDS, baselineAdaptMinutes: 1 };
+
+  it("leaves the baseline alone unless enabled", () => {
+    const engine = calibrated(thresholds);
+    feed(engine, 0, 60_000, frame({ browInnerDist: 0.21 }));
+    expect(engine.baseline).toEqual(NEUTRAL);
+  });
+
+  it("follows relaxed frames after a settled stretch", () => {
+    const engine = calibrated(thresholds);
+    engine.setAdaptiveBaseline(true);
+
+    feed(engine, 0, 3_000, frame({ browInnerDist: 0.21 }));
+    expect(engine.baseline).toEqual(NEUTRAL);
+
+    feed(engine, 3_000, 300_000, frame({ browInnerDist: 0.21 }));
+    expect(engine.baseline?.browInnerDist).toBeCloseTo(0.21, 3);
+  });
+
+  it("stops at recalibrateDrift and suggests recalibrating", () => {
+    const engine = calibrated(thresholds);
+    const changes = collect(engine, "baselineChange");
+    engine.setAdaptiveBaseline(true);
+
+    feed(engine, 0, 600_000, frame({ browInnerDist: 0.26 }));
+
+    const drift = baselineDrift(NEUTRAL, engine.baseline ?? NEUTRAL);
+    expect(drift).toBeGreaterThan(0.14);
+    expect(drift).toBeLessThanOrEqual(thresholds.recalibrateDrift);
+    expect(changes.at(-1)).toMatchObject({ needsRecalibration: true });
+    expect(changes.at(-1)?.drift).toBeLessThanOrEqual(
+      thresholds.recalibrateDrift,
+    );
+  });
+
+  it("drops what was learned when turned off", () => {
+    const engine = calibrated(thresholds);
+    engine.setAdaptiveBaseline(true);
+    feed(engine, 0, 120_000, frame({ browInnerDist: 0.21 }));
+    expect(engine.baseline).not.toEqual(NEUTRAL);
+
+    engine.setAdaptiveBaseline(false);
+    expect(engine.baseline).toEqual(NEUTRAL);
+  });
+});
@@ -0,0 +1,384 @@
+import { averageSignals, type Signals } from "./computeSignals";
+import {
+  classify,
+  detectTenseRegions,
+  exceedsHeadPose,
+  TENSION_REGIONS,
+  type Classification,
+  type TensionRegion,
+} from "./classify";
+import { baselineDrift, blendBaseline } from "./adaptiveBaseline";
+import { TalkingDetector } from "./talking";
+import type { Thresholds } from "./thresholds";
+import { EventEmitter } from "./eventEmitter";
+
+const CALIBRATION_SAMPLE_INTERVAL_MS = 100;
+const RELAXED_HOLD_MS = 3_000; // settled time before relaxed frames adapt
+const MAX_ADAPT_STEP_MS = 1_000; // caps the weight of a frame after a gap
+const BASELINE_EVENT_INTERVAL_MS = 1_000;
+
+export type TensionEpisode = {
+  start: number; // epoch ms
+  end: number; // epoch ms
+  durationMs: number;
+  regions: TensionRegion[]; // regions that crossed their thresholds
+  alertFired: boolean;
+};
+
+export type TensionEngineEvents = {
+  calibrationProgress: { secondsLeft: number; sampleCount: number };
+  calibrationComplete: {
+    neutral: Signals | null; // null when no usable samples were collected
+    sampleCount: number;
+    thresholds: Thresholds;
+  };
+  smileChange: { isSmiling: boolean; score: number };
+  headTurnChange: { isHeadTurned: boolean };
+  talkingChange: { isTalking: boolean };
+  tensionStart: { time: number; regions: TensionRegion[] };
+  tensionEnd: { episode: TensionEpisode };
+  alertDue: { time: number; regions: TensionRegion[] };
+  baselineChange: {
+    neutral: Signals | null; // current (possibly adapted) baseline
+    drift: number; // largest relative change from the calibrated baseline
+    needsRecalibration: boolean; // adaptation hit the drift limit
+  };
+};
+
+type Calibration = {
+  endTime: number;
+  samples: Signals[];
+  weights: number[]; // per sample, from the input quality
+  lastSampleTime: number;
+  previousNeutral: Signals | null;
+};
+
+type Adaptation = {
+  relaxedSince: number | null;
+  lastRelaxedTime: number;
+  lastEmitTime: number;
+  drift: number;
+};
+
+type Episode = {
+  start: number;
+  regions: Set<TensionRegion>;
+  alertFired: boolean;
+};
+
+/**
+ * Framework-agnostic tension detection.
+ * Feed it timestamped `Signals` frames via `process` and subscribe to events.
+ * Timestamps are epoch ms and must not go backwards.
+ */
+export class TensionEngine extends EventEmitter<TensionEngineEvents> {
+  private thresholds: Thresholds;
+  private neutral: Signals | null = null;
+  private calibratedNeutral: Signals | null = null; // before adaptation
+  private adaptive = false;
+  private adaptation: Adaptation = {
+    relaxedSince: null,
+    lastRelaxedTime: -Infinity,
+    lastEmitTime: -Infinity,
+    drift: 0,
+  };
+  private calibration: Calibration | null = null;
+  private tensionStartTime: number | null = null;
+  private episode: Episode | null = null;
+  private activeRegions: TensionRegion[] = []; // for hysteresis
+  private smiling = false;
+  private headTurned = false;
+  private talking = false;
+  private talkingDetector = new TalkingDetector();
+  private inputQuality = 1;
+
+  constructor(thresholds: Thresholds, neutral: Signals | null = null) {
+    super();
+    this.thresholds = thresholds;
+    this.neutral = neutral;
+    this.calibratedNeutral = neutral;
+  }
+
+  get isCalibrating() {
+    return this.calibration !== null;
+  }
+
+  get isHeadTurned() {
+    return this.headTurned;
+  }
+
+  get isTalking() {
+    return this.talking;
+  }
+
+  // The neutral in use, including any adaptation
+  get baseline() {
+    return this.neutral;
+  }
+
+  setThresholds(thresholds: Thresholds) {
+    this.thresholds = thresholds;
+  }
+
+  // Voice activity from the local microphone, if the user opted in
+  setVoiceActive(active: boolean) {
+    this.talkingDetector.setVoiceActive(active);
+  }
+
+  // 0..1 quality of the current frame (lighting, distance, occlusion).
+  // Below `minInputQuality` detection pauses and calibration skips frames;
+  // above it calibration samples are weighted by it.
+  setInputQuality(quality: number) {
+    this.inputQuality = quality;
+  }
+
+  // Slowly update the baseline from confidently relaxed frames
+  setAdaptiveBaseline(enabled: boolean) {
+    if (enabled === this.adaptive) return;
+    this.adaptive = enabled;
+    // Turning it off drops what was learned
+    if (!enabled && !this.calibration) {
+      this.neutral = this.calibratedNeutral;
+      this.restartAdaptation();
+    }
+  }
+
+  // Ignored while calibrating; the calibration result takes over afterwards
+  setNeutral(neutral: Signals | null) {
+    if (this.calibration) return;
+    this.neutral = neutral;
+    this.activeRegions = [];
+    this.restartAdaptation();
+  }
+
+  startCalibration(now: number) {
+    this.reset(now);
+    this.calibration = {
+      endTime: now + this.thresholds.calibrationDurationMs,
+      samples: [],
+      weights: [],
+      lastSampleTime: -Infinity,
+      previousNeutral: this.neutral,
+    };
+    this.neutral = null;
+    this.activeRegions = [];
+    this.setSmiling(false, 0);
+  }
+
+  // The caller actually alerted the user for the current episode
+  markAlertFired() {
+    if (this.episode) this.episode.alertFired = true;
+  }
+
+  // Ends any open episode and clears the tension timer
+  reset(now: number) {
+    this.tensionStartTime = null;
+    this.endEpisode(now);
+  }
+
+  // `raw` is the unfiltered frame, when `signals` has been smoothed: talking
+  // detection measures quick mouth movement that filtering damps
+  process(
+    signals: Signals,
+    now: number,
+    raw: Signals = signals,
+  ): Classification | null {
+    // Calibration samples are gated on facing forward, detection on the
+    // calibrated pose
+    this.setHeadTurned(exceedsHeadPose(signals, this.thresholds, this.neutral));
+    this.setTalking(
+      this.talkingDetector.update(raw, now, this.thresholds.talkingMouthStd),
+    );
+
+    if (this.calibration) {
+      this.sampleCalibration(this.calibration, signals, now);
+      return null;
+    }
+
+    const neutral = this.neutral;
+    if (!neutral) return null;
+
+    // Poor input skews the ratios, so pause rather than misread it
+    if (this.inputQuality < this.thresholds.minInputQuality) {
+      this.reset(now);
+      return null;
+    }
+
+    const classification = classify(signals, neutral, this.thresholds, {
+      activeRegions: this.activeRegions,
+      isTalking: this.talking,
+    });
+    this.activeRegions = classification.regions;
+    if (this.adaptive) {
+      this.adaptBaseline(signals, neutral, classification, now);
+    }
+    this.setSmiling(classification.isSmiling, classification.smileScore);
+
+    if (!classification.isTense) {
+      this.reset(now);
+      return classification;
+    }
+
+    this.updateEpisode(classification.regions, now);
+
+    if (this.tensionStartTime === null) {
+      this.tensionStartTime = now;
+    } else if (now - this.tensionStartTime >= this.thresholds.tensionAlertMs) {
+      this.emit("alertDue", { time: now, regions: classification.regions });
+      this.tensionStartTime = null;
+    }
+
+    return classification;
+  }
+
+  private sampleCalibration(
+    calibration: Calibration,
+    signals: Signals,
+    now: number,
+  ) {
+    if (now - calibration.lastSampleTime >= CALIBRATION_SAMPLE_INTERVAL_MS) {
+      // Only collect samples when facing forward, not talking and the
+      // input is usable
+      if (
+        !this.headTurned &&
+        !this.talking &&
+        this.inputQuality >= this.thresholds.minInputQuality
+      ) {
+        calibration.samples.push(signals);
+        calibration.weights.push(this.inputQuality);
+      }
+      calibration.lastSampleTime = now;
+      this.emit("calibrationProgress", {
+        secondsLeft: Math.max(0, Math.ceil((calibration.endTime - now) / 1000)),
+        sampleCount: calibration.samples.length,
+      });
+    }
+
+    if (now >= calibration.endTime) this.finalizeCalibration(calibration);
+  }
+
+  private finalizeCalibration(calibration: Calibration) {
+    this.calibration = null;
+
+    const neutral = averageSignals(calibration.samples, calibration.weights);
+    this.neutral = neutral ?? calibration.previousNeutral;
+    this.restartAdaptation();
+
+    this.emit("calibrationComplete", {
+      neutral,
+      sampleCount: calibration.samples.length,
+      thresholds: this.thresholds,
+    });
+  }
+
+  // Only frames that pass even the stricter exit thresholds count, only after
+  // a settled relaxed stretch, and the baseline never moves further from the
+  // calibration than the drift at which recalibrating is suggested
+  private adaptBaseline(
+    signals: Signals,
+    neutral: Signals,
+    classification: Classification,
+    now: number,
+  ) {
+    const adaptation = this.adaptation;
+    const isRelaxed =
+      !classification.isHeadTurned &&
+      !classification.isSmiling &&
+      !classification.isTalking &&
+      detectTenseRegions(signals, neutral, this.thresholds, TENSION_REGIONS)
+        .length === 0;
+    if (!isRelaxed) {
+      adaptation.relaxedSince = null;
+      return;
+    }
+
+    const stepMs = Math.min(
+      now - adaptation.lastRelaxedTime,
+      MAX_ADAPT_STEP_MS,
+    );
+    adaptation.lastRelaxedTime = now;
+    adaptation.relaxedSince ??= now;
+    if (now - adaptation.relaxedSince < RELAXED_HOLD_MS) return;
+
+    const calibrated = this.calibratedNeutral ?? neutral;
+    const next = blendBaseline(
+      neutral,
+      signals,
+      stepMs / (this.thresholds.baselineAdaptMinutes * 60_000),
+    );
+    const drift = baselineDrift(calibrated, next);
+    const needsRecalibration = drift > this.thresholds.recalibrateDrift;
+    if (!needsRecalibration) {
+      this.neutral = next;
+      adaptation.drift = drift;
+    }
+
+    if (now - adaptation.lastEmitTime >= BASELINE_EVENT_INTERVAL_MS) {
+      adaptation.lastEmitTime = now;
+      this.emit("baselineChange", {
+        neutral: this.neutral,
+        drift: adaptation.drift,
+        needsRecalibration,
+      });
+    }
+  }
+
+  // The current baseline becomes the new calibrated reference
+  private restartAdaptation() {
+    this.calibratedNeutral = this.neutral;
+    this.adaptation = {
+      relaxedSince: null,
+      lastRelaxedTime: -Infinity,
+      lastEmitTime: -Infinity,
+      drift: 0,
+    };
+    this.emit("baselineChange", {
+      neutral: this.neutral,
+      drift: 0,
+      needsRecalibration: false,
+    });
+  }
+
+  private updateEpisode(regions: TensionRegion[], now: number) {
+    if (!this.episode) {
+      this.episode = { start: now, regions: new Set(), alertFired: false };
+      this.emit("tensionStart", { time: now, regions });
+    }
+    for (const region of regions) this.episode.regions.add(region);
+  }
+
+  private endEpisode(now: number) {
+    const episode = this.episode;
+    if (!episode) return;
+    this.episode = null;
+
+    this.emit("tensionEnd", {
+      episode: {
+        start: episode.start,
+        end: now,
+        durationMs: now - episode.start,
+        regions: [...episode.regions],
+        alertFired: episode.alertFired,
+      },
+    });
+  }
+
+  private setSmiling(isSmiling: boolean, score: number) {
+    if (isSmiling === this.smiling) return;
+    this.smiling = isSmiling;
+    this.emit("smileChange", { isSmiling, score });
+  }
+
+  private setHeadTurned(isHeadTurned: boolean) {
+    if (isHeadTurned === this.headTurned) return;
+    this.headTurned = isHeadTurned;
+    if (isHeadTurned) this.setSmiling(false, 0);
+    this.emit("headTurnChange", { isHeadTurned });
+  }
+
+  private setTalking(isTalking: boolean) {
+    if (isTalking === this.talking) return;
+    this.talking = isTalking;
+    this.emit("talkingChange", { isTalking });
+  }
+}
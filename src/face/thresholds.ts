@@ -0,0 +1,211 @@
+// Detection thresholds and timings. Ratios are relative to the calibrated
+// neutral; blendshape deltas are score increases over neutral (scores are 0..1).
+export type Thresholds = {
+  calibrationDurationMs: number;
+  tensionAlertMs: number;
+  backgroundIntervalMs: number; // sampling interval while the tab is hidden
+  tension: number;
+  lipPress: number;
+  jawClench: number;
+  jawShutTolerance: number; // mouth opening over neutral that still counts as shut
+  blendshapeTensionDelta: number;
+  hysteresis: number; // share of the margin to neutral needed to leave tense
+  smileMouthWidth: number;
+  smileCornerLift: number;
+  smileCheekRaise: number;
+  smileBlendshapeDelta: number;
+  talkingMouthStd: number; // mouth-opening variation that counts as talking
+  maxYawDeg: number; // head pose limits, relative to the calibrated pose
+  maxPitchDeg: number;
+  maxRollDeg: number;
+  minBlinkRate: number; // blinks per minute; below this counts as eye strain
+  eyeStrainAlertMs: number; // low blink rate sustained this long alerts
+  baselineAdaptMinutes: number; // adaptive baseline time constant
+  recalibrateDrift: number; // drift from calibration that suggests recalibrating
+  awayGraceMs: number; // no face this long counts as away
+  breakReminderMinutes: number; // continuous time at the screen before a reminder
+  minBreakMinutes: number; // away this long resets the at-screen time
+  minInputQuality: number; // 0..1; below this detection pauses and calibration skips frames
+};
+
+export const DEFAULT_THRESHOLDS: Thresholds = {
+  calibrationDurationMs: 10_000,
+  tensionAlertMs: 3_000,
+  backgroundIntervalMs: 500,
+  tension: 0.9,
+  lipPress: 0.8,
+  jawClench: 1.02,
+  jawShutTolerance: 0.005,
+  blendshapeTensionDelta: 0.2,
+  hysteresis: 0.3,
+  smileMouthWidth: 1.05,
+  smileCornerLift: 1.3,
+  smileCheekRaise: 0.95,
+  smileBlendshapeDelta: 0.3,
+  talkingMouthStd: 0.01,
+  maxYawDeg: 25,
+  maxPitchDeg: 20,
+  maxRollDeg: 20,
+  minBlinkRate: 8,
+  eyeStrainAlertMs: 120_000,
+  baselineAdaptMinutes: 10,
+  recalibrateDrift: 0.15,
+  awayGraceMs: 10_000,
+  breakReminderMinutes: 90,
+  minBreakMinutes: 5,
+  minInputQuality: 0.4,
+};
+
+type ThresholdLimit = {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+// Allowed ranges for the settings panel
+export const THRESHOLD_LIMITS: Record<keyof Thresholds, ThresholdLimit> = {
+  calibrationDurationMs: {
+    label: "Calibration duration (ms)",
+    min: 3_000,
+    max: 60_000,
+    step: 1_000,
+  },
+  tensionAlertMs: {
+    label: "Sustained tension before alert (ms)",
+    min: 500,
+    max: 60_000,
+    step: 500,
+  },
+  backgroundIntervalMs: {
+    label: "Sampling interval in background tabs (ms)",
+    min: 100,
+    max: 5_000,
+    step: 100,
+  },
+  tension: { label: "Eye/brow tension ratio", min: 0.5, max: 0.99, step: 0.01 },
+  lipPress: { label: "Lip press ratio", min: 0.5, max: 0.99, step: 0.01 },
+  jawClench: { label: "Jaw clench ratio", min: 1, max: 1.2, step: 0.005 },
+  jawShutTolerance: {
+    label: "Jaw clench mouth-open tolerance",
+    min: 0,
+    max: 0.05,
+    step: 0.001,
+  },
+  blendshapeTensionDelta: {
+    label: "Blendshape tension delta",
+    min: 0.05,
+    max: 0.8,
+    step: 0.05,
+  },
+  hysteresis: {
+    label: "Hysteresis (share of margin to release)",
+    min: 0,
+    max: 0.9,
+    step: 0.05,
+  },
+  smileMouthWidth: {
+    label: "Smile mouth width ratio",
+    min: 1,
+    max: 1.3,
+    step: 0.01,
+  },
+  smileCornerLift: {
+    label: "Smile corner lift ratio",
+    min: 1,
+    max: 3,
+    step: 0.05,
+  },
+  smileCheekRaise: {
+    label: "Smile cheek raise ratio",
+    min: 0.7,
+    max: 1,
+    step: 0.01,
+  },
+  smileBlendshapeDelta: {
+    label: "Smile blendshape delta",
+    min: 0.05,
+    max: 0.9,
+    step: 0.05,
+  },
+  talkingMouthStd: {
+    label: "Talking mouth-opening variation (std)",
+    min: 0.002,
+    max: 0.05,
+    step: 0.001,
+  },
+  maxYawDeg: { label: "Max head yaw (°)", min: 5, max: 60, step: 1 },
+  maxPitchDeg: { label: "Max head pitch (°)", min: 5, max: 60, step: 1 },
+  maxRollDeg: { label: "Max head roll (°)", min: 5, max: 60, step: 1 },
+  minBlinkRate: {
+    label: "Minimum blink rate (per min)",
+    min: 2,
+    max: 30,
+    step: 1,
+  },
+  eyeStrainAlertMs: {
+    label: "Low blink rate before eye-strain alert (ms)",
+    min: 30_000,
+    max: 1_800_000,
+    step: 30_000,
+  },
+  baselineAdaptMinutes: {
+    label: "Adaptive baseline time constant (min)",
+    min: 1,
+    max: 120,
+    step: 1,
+  },
+  recalibrateDrift: {
+    label: "Baseline drift before suggesting recalibration",
+    min: 0.02,
+    max: 0.5,
+    step: 0.01,
+  },
+  awayGraceMs: {
+    label: "No face before counting as away (ms)",
+    min: 2_000,
+    max: 120_000,
+    step: 1_000,
+  },
+  breakReminderMinutes: {
+    label: "Time at the screen before a break reminder (min)",
+    min: 15,
+    max: 240,
+    step: 5,
+  },
+  minBreakMinutes: {
+    label: "Away time that counts as a break (min)",
+    min: 1,
+    max: 60,
+    step: 1,
+  },
+  minInputQuality: {
+    label: "Minimum input quality (0-1)",
+    min: 0,
+    max: 0.9,
+    step: 0.05,
+  },
+};
+
+// Returns an error message, or null when the value is in range
+export function validateThreshold(
+  key: keyof Thresholds,
+  value: number,
+): string | null {
+  const { min, max } = THRESHOLD_LIMITS[key];
+  if (!Number.isFinite(value)) return "Must be a number";
+  if (value < min || value > max) return `Must be between ${min} and ${max}`;
+  return null;
+}
+
+// Defaults overlaid with any valid stored values
+export function sanitizeThresholds(stored: Partial<Thresholds>): Thresholds {
+  const thresholds = { ...DEFAULT_THRESHOLDS };
+  for (const key of Object.keys(thresholds) as (keyof Thresholds)[]) {
+    const value = stored[key];
+    if (typeof value === "number" && validateThreshold(key, value) === null) {
+      thresholds[key] = value;
+    }
+  }
+  return thresholds;
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from "react";
+import { migrateNeutral, type Signals } from "../face/computeSignals";
+import { sanitizeThresholds, type Thresholds } from "../face/thresholds";
+import { readJSON, writeJSON } from "../utils/storage";
+
+const PROFILES_KEY = "ftm.profiles";
+const ACTIVE_PROFILE_KEY = "ftm.activeProfileId";
+const DEFAULT_PROFILE_NAME = "Default";
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  neutral: Signals | null; // null until the profile has been calibrated
+  calibratedAt: number | null; // epoch ms
+  sampleCount: number;
+  thresholds: Thresholds | null; // thresholds in use when calibrated
+  faceSignature: number[] | null; // face geometry, for following the user
+};
+
+export type CalibrationResult = {
+  neutral: Signals;
+  sampleCount: number;
+  thresholds: Thresholds;
+  faceSignature: number[] | null;
+};
+
+type ProfileStore = {
+  profiles: CalibrationProfile[];
+  activeId: string | null;
+};
+
+interface UseCalibrationProfilesResult {
+  profiles: CalibrationProfile[];
+  activeProfile: CalibrationProfile | null;
+  selectProfile: (id: string) => void;
+  createProfile: (name: string) => void;
+  deleteProfile: (id: string) => void;
+  saveCalibration: (result: CalibrationResult) => void;
+}
+
+function newProfile(name: string): CalibrationProfile {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    neutral: null,
+    calibratedAt: null,
+    sampleCount: 0,
+    thresholds: null,
+    faceSignature: null,
+  };
+}
+
+// A stored profile, or null if it isn't one. Baselines saved before newer
+// signals existed are migrated; one that can't be is dropped, leaving the
+// profile to be recalibrated.
+function parseProfile(value: unknown): CalibrationProfile | null {
+  if (typeof value !== "object" || value === null) return null;
+  const stored = value as Partial<CalibrationProfile>;
+  if (typeof stored.id !== "string" || typeof stored.name !== "string") {
+    return null;
+  }
+
+  let neutral: Signals | null = null;
+  if (stored.neutral) {
+    try {
+      neutral = migrateNeutral(stored.neutral);
+    } catch (err) {
+      console.warn(`Dropping the baseline of profile "${stored.name}":`, err);
+    }
+  }
+
+  return {
+    id: stored.id,
+    name: stored.name,
+    neutral,
+    calibratedAt:
+      neutral && typeof stored.calibratedAt === "number"
+        ? stored.calibratedAt
+        : null,
+    sampleCount:
+      neutral && typeof stored.sampleCount === "number"
+        ? stored.sampleCount
+        : 0,
+    thresholds:
+      neutral && stored.thresholds
+        ? sanitizeThresholds(stored.thresholds)
+        : null,
+    // Profiles saved before face signatures existed have none
+    faceSignature:
+      Array.isArray(stored.faceSignature) &&
+      stored.faceSignature.every((v) => typeof v === "number")
+        ? stored.faceSignature
+        : null,
+  };
+}
+
+function loadStore(): ProfileStore {
+  const stored = readJSON<unknown>(PROFILES_KEY, []);
+  const profiles = (Array.isArray(stored) ? stored : [])
+    .map(parseProfile)
+    .filter((p): p is CalibrationProfile => p !== null);
+  const activeId = readJSON<string | null>(ACTIVE_PROFILE_KEY, null);
+  return {
+    profiles,
+    activeId: profiles.some((p) => p.id === activeId)
+      ? activeId
+      : (profiles[0]?.id ?? null),
+  };
+}
+
+/**
+ * Hook to manage named calibration profiles persisted in localStorage.
+ * Restores the last-used profile on startup.
+ */
+export function useCalibrationProfiles(): UseCalibrationProfilesResult {
+  const [store, setStore] = useState<ProfileStore>(loadStore);
+
+  useEffect(() => {
+    writeJSON(PROFILES_KEY, store.profiles);
+    writeJSON(ACTIVE_PROFILE_KEY, store.activeId);
+  }, [store]);
+
+  const selectProfile = useCallback((id: string) => {
+    setStore((prev) => ({ ...prev, activeId: id }));
+  }, []);
+
+  const createProfile = useCallback((name: string) => {
+    const profile = newProfile(name);
+    setStore((prev) => ({
+      profiles: [...prev.profiles, profile],
+      activeId: profile.id,
+    }));
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setStore((prev) => {
+      const profiles = prev.profiles.filter((p) => p.id !== id);
+      return {
+        profiles,
+        activeId:
+          prev.activeId === id ? (profiles[0]?.id ?? null) : prev.activeId,
+      };
+    });
+  }, []);
+
+  // Stores a finished calibration on the active profile (creating one if needed)
+  const saveCalibration = useCallback((result: CalibrationResult) => {
+    setStore((prev) => {
+      const active =
+        prev.profiles.find((p) => p.id === prev.activeId) ??
+        newProfile(DEFAULT_PROFILE_NAME);
+      const updated: CalibrationProfile = {
+        ...active,
+        neutral: result.neutral,
+        calibratedAt: Date.now(),
+        sampleCount: result.sampleCount,
+        thresholds: result.thresholds,
+        faceSignature: result.faceSignature,
+      };
+      const exists = prev.profiles.some((p) => p.id === updated.id);
+      return {
+        profiles: exists
+          ? prev.profiles.map((p) => (p.id === updated.id ? updated : p))
+          : [...prev.profiles, updated],
+        activeId: updated.id,
+      };
+    });
+  }, []);
+
+  const activeProfile =
+    store.profiles.find((p) => p.id === store.activeId) ?? null;
+
+  return {
+    profiles: store.profiles,
+    activeProfile,
+    selectProfile,
+    createProfile,
+    deleteProfile,
+    saveCalibration,
+  };
+}
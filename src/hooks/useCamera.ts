@@ -1,43 +1,163 @@
 import { useEffect, useRef, useState } from "react";
+import {
+  CAMERA_RESOLUTIONS,
+  DEFAULT_CAMERA_SETTINGS,
+  type CameraSettings,
+} from "../utils/cameraSettings";
 
-export type CameraStatus = "initializing" | "requesting" | "ready" | "error";
+export type CameraStatus =
+  | "initializing"
+  | "requesting"
+  | "ready"
+  | "disconnected" // unplugged or taken by another app; retrying
+  | "error";
+
+export type CameraDevice = { deviceId: string; label: string };
 
 interface UseCameraResult {
   videoRef: React.RefObject<HTMLVideoElement | null>;
   status: CameraStatus;
   error: string | null;
+  devices: CameraDevice[];
+  activeDeviceId: string | null; // the camera actually streaming
+}
+
+const RETRY_INTERVAL_MS = 3_000;
+
+// getUserMedia failures that mean "not available right now", not "refused"
+const RECOVERABLE_ERRORS = new Set([
+  "NotFoundError",
+  "NotReadableError",
+  "AbortError",
+  "OverconstrainedError",
+]);
+
+async function listCameras(): Promise<CameraDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((d) => d.kind === "videoinput" && d.deviceId !== "")
+    .map((d, i) => ({
+      deviceId: d.deviceId,
+      label: d.label || `Camera ${i + 1}`,
+    }));
 }
 
 /**
  * Hook to manage webcam stream initialization and cleanup.
- * Handles requesting camera permissions and setting up the video element.
+ * Handles requesting camera permissions and setting up the video element,
+ * lists the available cameras, and restarts the stream when the camera
+ * disappears (track ended) or devices are plugged in or out.
  */
-export function useCamera(): UseCameraResult {
+export function useCamera(
+  settings: CameraSettings = DEFAULT_CAMERA_SETTINGS,
+): UseCameraResult {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const [status, setStatus] = useState<CameraStatus>("initializing");
   const [error, setError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [restartCount, setRestartCount] = useState(0);
+  const { deviceId, resolution, frameRate } = settings;
+
+  // Labels and ids are only exposed once permission is granted
+  const isReady = status === "ready";
+  useEffect(() => {
+    let cancelled = false;
+
+    function refresh() {
+      listCameras()
+        .then((cameras) => {
+          if (!cancelled) setDevices(cameras);
+        })
+        .catch((err) => console.error("Failed to list cameras:", err));
+    }
+
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, [isReady]);
 
   useEffect(() => {
     const videoEl = videoRef.current;
     let cancelled = false;
+    let stream: MediaStream | null = null;
+    let retryId: ReturnType<typeof setTimeout> | undefined;
+
+    function stopStream() {
+      if (stream) {
+        for (const track of stream.getTracks()) {
+          track.removeEventListener("ended", onTrackEnded);
+          track.stop();
+        }
+      }
+      stream = null;
+    }
+
+    function restart(delayMs = 0) {
+      clearTimeout(retryId);
+      retryId = setTimeout(() => setRestartCount((n) => n + 1), delayMs);
+    }
+
+    function onTrackEnded() {
+      if (cancelled) return;
+      // Show the outage rather than freezing on the last frame
+      stopStream();
+      if (videoEl) videoEl.srcObject = null;
+      setActiveDeviceId(null);
+      setStatus("disconnected");
+      restart(RETRY_INTERVAL_MS);
+    }
+
+    function onDeviceChange() {
+      if (cancelled) return;
+      if (!stream) {
+        restart();
+        return;
+      }
+      // Switch back to the preferred camera when it's plugged in again
+      const current = stream.getVideoTracks()[0]?.getSettings().deviceId;
+      if (!deviceId || current === deviceId) return;
+      listCameras()
+        .then((cameras) => {
+          if (!cancelled && cameras.some((c) => c.deviceId === deviceId)) {
+            restart();
+          }
+        })
+        .catch((err) => console.error("Failed to list cameras:", err));
+    }
 
     async function initCamera() {
       if (!videoEl) return;
 
       try {
         setStatus("requesting");
-
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 640, height: 480 },
+        setError(null);
+
+        const { width, height } = CAMERA_RESOLUTIONS[resolution];
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            // Falls back to another camera if the preferred one is missing
+            deviceId: deviceId ? { ideal: deviceId } : undefined,
+            width,
+            height,
+            frameRate,
+          },
           audio: false,
         });
 
         if (cancelled) {
           // Clean up stream if component unmounted during async operation
-          for (const track of stream.getTracks()) track.stop();
+          stopStream();
           return;
         }
 
+        const [track] = stream.getVideoTracks();
+        track?.addEventListener("ended", onTrackEnded);
+        setActiveDeviceId(track?.getSettings().deviceId ?? null);
+
         videoEl.srcObject = stream;
 
         // Wait until the video has enough data to play
@@ -58,6 +178,12 @@ export function useCamera(): UseCameraResult {
         setStatus("ready");
       } catch (err) {
         if (cancelled) return;
+        stopStream();
+        if (err instanceof Error && RECOVERABLE_ERRORS.has(err.name)) {
+          setStatus("disconnected");
+          restart(RETRY_INTERVAL_MS);
+          return;
+        }
         setStatus("error");
         setError(
           err instanceof Error ? err.message : "Failed to access camera",
@@ -65,18 +191,21 @@ export function useCamera(): UseCameraResult {
       }
     }
 
+    navigator.mediaDevices.addEventListener("devicechange", onDeviceChange);
     initCamera();
 
     return () => {
       cancelled = true;
+      clearTimeout(retryId);
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        onDeviceChange,
+      );
 
       // Stop camera stream on cleanup
-      const stream = videoEl?.srcObject;
-      if (stream instanceof MediaStream) {
-        for (const track of stream.getTracks()) track.stop();
-      }
+      stopStream();
     };
-  }, []);
+  }, [deviceId, resolution, frameRate, restartCount]);
 
-  return { videoRef, status, error };
+  return { videoRef, status, error, devices, activeDeviceId };
 }
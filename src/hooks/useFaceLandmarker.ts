@@ -1,39 +1,60 @@
 import { useEffect, useRef, useState } from "react";
-import type { FaceLandmarker } from "@mediapipe/tasks-vision";
 import { createFaceLandmarker } from "../face/createFaceLandmarker";
+import {
+  createMainThreadDetector,
+  createWorkerDetector,
+  supportsWorkerDetection,
+  type DetectorMode,
+  type FaceDetector,
+} from "../face/detector";
 
 export type LandmarkerStatus = "idle" | "loading" | "ready" | "error";
 
 interface UseFaceLandmarkerResult {
-  landmarkerRef: React.RefObject<FaceLandmarker | null>;
+  detectorRef: React.RefObject<FaceDetector | null>;
   status: LandmarkerStatus;
   error: string | null;
+  mode: DetectorMode | null;
 }
 
 /**
  * Hook to load and manage the MediaPipe FaceLandmarker.
- * Handles async initialization and cleanup.
+ * Runs inference in a Web Worker when supported, falling back to the
+ * main thread when workers/OffscreenCanvas are missing or the worker fails.
  */
 export function useFaceLandmarker(): UseFaceLandmarkerResult {
-  const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const detectorRef = useRef<FaceDetector | null>(null);
   const [status, setStatus] = useState<LandmarkerStatus>("idle");
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<DetectorMode | null>(null);
 
   useEffect(() => {
     let cancelled = false;
 
+    async function createDetector(): Promise<FaceDetector> {
+      if (supportsWorkerDetection()) {
+        try {
+          return await createWorkerDetector();
+        } catch (err) {
+          console.warn("Worker inference unavailable, using main thread:", err);
+        }
+      }
+      return createMainThreadDetector(await createFaceLandmarker());
+    }
+
     async function loadLandmarker() {
       try {
         setStatus("loading");
 
-        const landmarker = await createFaceLandmarker();
+        const detector = await createDetector();
 
         if (cancelled) {
-          landmarker.close();
+          detector.close();
           return;
         }
 
-        landmarkerRef.current = landmarker;
+        detectorRef.current = detector;
+        setMode(detector.mode);
         setStatus("ready");
       } catch (err) {
         if (cancelled) return;
@@ -48,9 +69,10 @@ export function useFaceLandmarker(): UseFaceLandmarkerResult {
 
     return () => {
       cancelled = true;
-      landmarkerRef.current?.close();
+      detectorRef.current?.close();
+      detectorRef.current = null;
     };
   }, []);
 
-  return { landmarkerRef, status, error };
+  return { detectorRef, status, error, mode };
 }
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { readJSON, writeJSON } from "../utils/storage";
+
+export const HISTORY_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hook to keep a local history (tension episodes, eye strain, presence,
+ * relaxation sessions) in localStorage under `key`. Items that ended before
+ * the retention window are dropped on write.
+ */
+export function usePersistentHistory<T extends { end: number }>(
+  key: string,
+): [T[], (item: T) => void, () => void] {
+  const [items, setItems] = useState<T[]>(() => readJSON<T[]>(key, []));
+
+  useEffect(() => {
+    writeJSON(key, items);
+  }, [key, items]);
+
+  const recordItem = useCallback((item: T) => {
+    const cutoff = Date.now() - HISTORY_RETENTION_MS;
+    setItems((prev) => [...prev.filter((i) => i.end >= cutoff), item]);
+  }, []);
+
+  const clearItems = useCallback(() => setItems([]), []);
+
+  return [items, recordItem, clearItems];
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { readJSON, writeJSON } from "../utils/storage";
+
+/**
+ * Hook to hold a settings object persisted in localStorage under `key`.
+ * Stored values and patches go through `sanitize`, so invalid or
+ * out-of-range entries fall back to their defaults.
+ */
+export function usePersistentSettings<T>(
+  key: string,
+  defaults: T,
+  sanitize: (stored: Partial<T>) => T,
+): [T, (patch: Partial<T>) => void, () => void] {
+  const [settings, setSettings] = useState<T>(() =>
+    sanitize(readJSON<Partial<T>>(key, {})),
+  );
+
+  useEffect(() => {
+    writeJSON(key, settings);
+  }, [key, settings]);
+
+  const updateSettings = useCallback(
+    (patch: Partial<T>) =>
+      setSettings((prev) => sanitize({ ...prev, ...patch })),
+    [sanitize],
+  );
+
+  const resetSettings = useCallback(() => setSettings(defaults), [defaults]);
+
+  return [settings, updateSettings, resetSettings];
+}
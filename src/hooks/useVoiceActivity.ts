@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import workletUrl from "../utils/voiceActivity.worklet.ts?worker&url";
+
+export type VoiceActivityStatus = "off" | "requesting" | "listening" | "error";
+
+interface UseVoiceActivityResult {
+  isVoiceActive: boolean;
+  status: VoiceActivityStatus;
+  error: string | null;
+}
+
+/**
+ * Hook to detect voice activity from the microphone while `enabled`.
+ * Audio is analyzed in the page by an AudioWorklet (signal level against a
+ * running noise floor), which keeps working in hidden tabs, and is never
+ * recorded or sent anywhere.
+ */
+export function useVoiceActivity(enabled: boolean): UseVoiceActivityResult {
+  const [isVoiceActive, setIsVoiceActive] = useState(false);
+  const [status, setStatus] = useState<VoiceActivityStatus>("off");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioCtx: AudioContext | null = null;
+
+    async function start() {
+      try {
+        setStatus("requesting");
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true },
+          video: false,
+        });
+        if (cancelled) {
+          for (const track of stream.getTracks()) track.stop();
+          return;
+        }
+
+        audioCtx = new AudioContext();
+        await audioCtx.audioWorklet.addModule(workletUrl);
+        if (cancelled) return;
+
+        // No outputs: the node only measures, and is rendered as a sink
+        const detector = new AudioWorkletNode(audioCtx, "voice-activity", {
+          numberOfOutputs: 0,
+        });
+        detector.port.onmessage = (e: MessageEvent<boolean>) =>
+          setIsVoiceActive(e.data);
+        audioCtx.createMediaStreamSource(stream).connect(detector);
+
+        setStatus("listening");
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setStatus("error");
+        setError(
+          err instanceof Error ? err.message : "Failed to access microphone",
+        );
+      }
+    }
+
+    start();
+
+    return () => {
+      cancelled = true;
+      setIsVoiceActive(false);
+      for (const track of stream?.getTracks() ?? []) track.stop();
+      audioCtx?.close();
+    };
+  }, [enabled]);
+
+  return {
+    isVoiceActive: enabled && isVoiceActive,
+    status: enabled ? status : "off",
+    error: enabled ? error : null,
+  };
+}
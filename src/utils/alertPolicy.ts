@@ -0,0 +1,165 @@
+// Escalating alert levels; each level includes the ones before it
+export type AlertLevel = "visual" | "chime" | "notification";
+
+export type AlertPolicySettings = {
+  minGapMinutes: number; // cooldown after any alert
+  snoozeMinutes: number; // default snooze length
+  escalationWindowMinutes: number; // earlier alerts within this escalate
+  maxAlertsPerHour: number;
+  quietHoursEnabled: boolean;
+  quietStartHour: number; // local hour, 0-23
+  quietEndHour: number; // local hour, 0-23; may wrap past midnight
+};
+
+export const DEFAULT_ALERT_POLICY: AlertPolicySettings = {
+  minGapMinutes: 2,
+  snoozeMinutes: 30,
+  escalationWindowMinutes: 30,
+  maxAlertsPerHour: 6,
+  quietHoursEnabled: false,
+  quietStartHour: 22,
+  quietEndHour: 7,
+};
+
+type NumericPolicySetting = Exclude<
+  keyof AlertPolicySettings,
+  "quietHoursEnabled"
+>;
+
+// Allowed ranges for the settings panel
+export const ALERT_POLICY_LIMITS: Record<
+  NumericPolicySetting,
+  { label: string; min: number; max: number; step: number }
+> = {
+  minGapMinutes: {
+    label: "Minimum gap between alerts (min)",
+    min: 0,
+    max: 60,
+    step: 1,
+  },
+  snoozeMinutes: { label: "Snooze length (min)", min: 5, max: 240, step: 5 },
+  escalationWindowMinutes: {
+    label: "Escalation window (min)",
+    min: 5,
+    max: 120,
+    step: 5,
+  },
+  maxAlertsPerHour: { label: "Alerts per hour", min: 1, max: 60, step: 1 },
+  quietStartHour: {
+    label: "Quiet hours start (hour)",
+    min: 0,
+    max: 23,
+    step: 1,
+  },
+  quietEndHour: { label: "Quiet hours end (hour)", min: 0, max: 23, step: 1 },
+};
+
+// Defaults overlaid with any valid stored values
+export function sanitizeAlertPolicy(
+  stored: Partial<AlertPolicySettings>,
+): AlertPolicySettings {
+  const settings = { ...DEFAULT_ALERT_POLICY };
+  if (typeof stored.quietHoursEnabled === "boolean") {
+    settings.quietHoursEnabled = stored.quietHoursEnabled;
+  }
+  for (const key of Object.keys(
+    ALERT_POLICY_LIMITS,
+  ) as NumericPolicySetting[]) {
+    const value = stored[key];
+    const { min, max } = ALERT_POLICY_LIMITS[key];
+    if (typeof value === "number" && value >= min && value <= max) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+export type AlertDecision =
+  | { allowed: true; level: AlertLevel }
+  | {
+      allowed: false;
+      reason: "snoozed" | "quietHours" | "cooldown" | "budget";
+    };
+
+const HOUR_MS = 60 * 60_000;
+const LEVELS: AlertLevel[] = ["visual", "chime", "notification"];
+
+/**
+ * Decides whether (and how loudly) an alert may fire: snooze, quiet hours,
+ * a minimum gap and an hourly budget, escalating from visual to chime to
+ * notification while alerts keep recurring within the escalation window.
+ */
+export class AlertPolicy {
+  private settings: AlertPolicySettings;
+  private firedAt: number[] = []; // epoch ms of alerts that went out
+  private snoozedUntil = 0;
+
+  constructor(settings: AlertPolicySettings = DEFAULT_ALERT_POLICY) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: AlertPolicySettings) {
+    this.settings = settings;
+  }
+
+  // Returns when the snooze ends (epoch ms)
+  snooze(now: number, minutes = this.settings.snoozeMinutes): number {
+    this.snoozedUntil = now + minutes * 60_000;
+    return this.snoozedUntil;
+  }
+
+  cancelSnooze() {
+    this.snoozedUntil = 0;
+  }
+
+  // Snoozed or in quiet hours. Reminders with their own timing (eye strain,
+  // breaks) check only this, not the tension alerts' gap and budget.
+  isMuted(now: number): boolean {
+    return (
+      now < this.snoozedUntil ||
+      (this.settings.quietHoursEnabled && this.isQuietHour(now))
+    );
+  }
+
+  decide(now: number): AlertDecision {
+    const { settings } = this;
+    if (now < this.snoozedUntil) return { allowed: false, reason: "snoozed" };
+    if (settings.quietHoursEnabled && this.isQuietHour(now)) {
+      return { allowed: false, reason: "quietHours" };
+    }
+
+    const last = this.firedAt[this.firedAt.length - 1];
+    if (last !== undefined && now - last < settings.minGapMinutes * 60_000) {
+      return { allowed: false, reason: "cooldown" };
+    }
+    const lastHour = this.firedAt.filter((t) => now - t < HOUR_MS).length;
+    if (lastHour >= settings.maxAlertsPerHour) {
+      return { allowed: false, reason: "budget" };
+    }
+
+    const recent = this.firedAt.filter(
+      (t) => now - t < settings.escalationWindowMinutes * 60_000,
+    ).length;
+    return {
+      allowed: true,
+      level: LEVELS[Math.min(recent, LEVELS.length - 1)],
+    };
+  }
+
+  // The caller actually alerted the user
+  record(now: number) {
+    const keepMs = Math.max(
+      HOUR_MS,
+      this.settings.escalationWindowMinutes * 60_000,
+    );
+    this.firedAt = [...this.firedAt.filter((t) => now - t < keepMs), now];
+  }
+
+  private isQuietHour(now: number) {
+    const hour = new Date(now).getHours();
+    const { quietStartHour: start, quietEndHour: end } = this.settings;
+    return start <= end
+      ? hour >= start && hour < end
+      : hour >= start || hour < end;
+  }
+}
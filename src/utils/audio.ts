@@ -1,31 +1,315 @@
+import { readJSON, removeJSON, writeJSON } from "./storage";
+
+type ToneOptions = {
+  peakGain?: number;
+  attack?: number; // seconds to reach peakGain
+  type?: OscillatorType;
+};
+
+function playTone(
+  audioCtx: AudioContext,
+  destination: AudioNode,
+  freq: number,
+  startTime: number,
+  duration: number,
+  { peakGain = 0.3, attack = 0.05, type = "sine" }: ToneOptions = {},
+) {
+  const oscillator = audioCtx.createOscillator();
+  const gainNode = audioCtx.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(destination);
+
+  oscillator.type = type;
+  oscillator.frequency.value = freq;
+
+  // Gentle fade in and out
+  gainNode.gain.setValueAtTime(0, startTime);
+  gainNode.gain.linearRampToValueAtTime(peakGain, startTime + attack);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+
+  oscillator.start(startTime);
+  oscillator.stop(startTime + duration);
+}
+
+// Master gain for one cue, so every style respects the volume setting
+function output(audioCtx: AudioContext, volume: number): AudioNode {
+  const gainNode = audioCtx.createGain();
+  gainNode.gain.value = volume;
+  gainNode.connect(audioCtx.destination);
+  return gainNode;
+}
+
 /**
  * Plays a relaxing chime sound using the Web Audio API.
  * Uses a C major chord (C5, E5, G5) with staggered timing for a pleasant effect.
  */
-export function playRelaxChime(audioCtx: AudioContext): void {
-  const playTone = (freq: number, startTime: number, duration: number) => {
-    const oscillator = audioCtx.createOscillator();
-    const gainNode = audioCtx.createGain();
+export function playRelaxChime(audioCtx: AudioContext, volume = 1): void {
+  const now = audioCtx.currentTime;
+  const out = output(audioCtx, volume);
 
-    oscillator.connect(gainNode);
-    gainNode.connect(audioCtx.destination);
+  // C major chord
+  playTone(audioCtx, out, 523.25, now, 1.5); // C5
+  playTone(audioCtx, out, 659.25, now + 0.1, 1.4); // E5
+  playTone(audioCtx, out, 783.99, now + 0.2, 1.3); // G5
+}
 
-    oscillator.type = "sine";
-    oscillator.frequency.value = freq;
+// Struck bell: inharmonic partials with a long decay
+function playSoftBell(audioCtx: AudioContext, volume: number) {
+  const now = audioCtx.currentTime;
+  const out = output(audioCtx, volume);
+  const options = { attack: 0.01 };
 
-    // Gentle fade in and out
-    gainNode.gain.setValueAtTime(0, startTime);
-    gainNode.gain.linearRampToValueAtTime(0.3, startTime + 0.05);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+  playTone(audioCtx, out, 660, now, 2.5, { ...options, peakGain: 0.25 });
+  playTone(audioCtx, out, 660 * 2.76, now, 1.2, { ...options, peakGain: 0.08 });
+  playTone(audioCtx, out, 660 * 5.4, now, 0.6, { ...options, peakGain: 0.03 });
+}
 
-    oscillator.start(startTime);
-    oscillator.stop(startTime + duration);
-  };
+// Slow-swelling low chord (A2, E3, A3)
+function playLowPad(audioCtx: AudioContext, volume: number) {
+  const now = audioCtx.currentTime;
+  const out = output(audioCtx, volume);
+  const options = { attack: 0.6, peakGain: 0.15, type: "triangle" as const };
+
+  playTone(audioCtx, out, 110, now, 3, options);
+  playTone(audioCtx, out, 164.81, now, 3, options);
+  playTone(audioCtx, out, 220, now, 3, options);
+}
+
+// Short, quiet click
+function playTick(audioCtx: AudioContext, volume: number) {
+  playTone(
+    audioCtx,
+    output(audioCtx, volume),
+    1500,
+    audioCtx.currentTime,
+    0.06,
+    { attack: 0.002, peakGain: 0.2 },
+  );
+}
 
+/**
+ * Soft single tone marking a breathing phase: higher to breathe in,
+ * lower to breathe out. Quieter than the alert chime.
+ */
+export function playBreathCue(
+  audioCtx: AudioContext,
+  phase: "in" | "out",
+  volume = 1,
+): void {
+  playTone(
+    audioCtx,
+    output(audioCtx, volume),
+    phase === "in" ? 392 : 261.63, // G4 / C4
+    audioCtx.currentTime,
+    1.2,
+    { peakGain: 0.12 },
+  );
+}
+
+/**
+ * Short rising pair (E5, G5) confirming a relaxation step.
+ */
+export function playStepCompleteCue(audioCtx: AudioContext, volume = 1): void {
   const now = audioCtx.currentTime;
+  const out = output(audioCtx, volume);
+  playTone(audioCtx, out, 659.25, now, 0.4, { peakGain: 0.2 }); // E5
+  playTone(audioCtx, out, 783.99, now + 0.15, 0.5, { peakGain: 0.2 }); // G5
+}
 
-  // C major chord
-  playTone(523.25, now, 1.5); // C5
-  playTone(659.25, now + 0.1, 1.4); // E5
-  playTone(783.99, now + 0.2, 1.3); // G5
+export type SoundId =
+  "chime" | "softBell" | "lowPad" | "tick" | "custom" | "none";
+
+export const SOUNDS: Record<SoundId, string> = {
+  chime: "Chime",
+  softBell: "Soft bell",
+  lowPad: "Low pad",
+  tick: "Single tick",
+  custom: "Your audio file",
+  none: "Silent",
+};
+
+// What each kind of alert plays
+export type AlertSoundType = "tension" | "eyeStrain" | "absence";
+
+export const ALERT_SOUND_TYPES: Record<AlertSoundType, string> = {
+  tension: "Tension",
+  eyeStrain: "Eye strain",
+  absence: "Break reminder",
+};
+
+// The file itself is kept under its own key, out of the settings object
+export type CustomSound = {
+  name: string; // original file name, for display
+};
+
+export type SoundSettings = {
+  volume: number; // percent
+  sounds: Record<AlertSoundType, SoundId>;
+  customSound: CustomSound | null;
+};
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  volume: 60,
+  sounds: { tension: "chime", eyeStrain: "softBell", absence: "lowPad" },
+  customSound: null,
+};
+
+// Allowed range for the settings panel
+export const SOUND_LIMITS: Record<
+  "volume",
+  { label: string; min: number; max: number; step: number }
+> = {
+  volume: { label: "Volume (%)", min: 0, max: 100, step: 5 },
+};
+
+// Stored in localStorage, so keep custom files small
+export const MAX_CUSTOM_SOUND_BYTES = 1_000_000;
+const CUSTOM_SOUND_FILE_KEY = "ftm.customSoundFile";
+
+const isSoundId = (value: unknown): value is SoundId =>
+  typeof value === "string" && value in SOUNDS;
+
+const isAudioDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith("data:audio/");
+
+function sanitizeCustomSound(stored: unknown): CustomSound | null {
+  if (typeof stored !== "object" || stored === null) return null;
+  const { name, dataUrl } = stored as CustomSound & { dataUrl?: unknown };
+  if (typeof name !== "string") return null;
+  // Settings saved before the file had its own key held it inline
+  if (isAudioDataUrl(dataUrl) && !saveCustomSoundFile(dataUrl)) return null;
+  return { name };
+}
+
+// Defaults overlaid with any valid stored values
+export function sanitizeSoundSettings(
+  stored: Partial<SoundSettings>,
+): SoundSettings {
+  const settings: SoundSettings = {
+    ...DEFAULT_SOUND_SETTINGS,
+    sounds: { ...DEFAULT_SOUND_SETTINGS.sounds },
+    customSound: sanitizeCustomSound(stored.customSound),
+  };
+
+  const { min, max } = SOUND_LIMITS.volume;
+  if (
+    typeof stored.volume === "number" &&
+    stored.volume >= min &&
+    stored.volume <= max
+  ) {
+    settings.volume = stored.volume;
+  }
+  for (const type of Object.keys(ALERT_SOUND_TYPES) as AlertSoundType[]) {
+    const id = stored.sounds?.[type];
+    // Without a file, "custom" falls back to the default
+    if (isSoundId(id) && (id !== "custom" || settings.customSound)) {
+      settings.sounds[type] = id;
+    }
+  }
+
+  return settings;
+}
+
+// The stored custom file, decoded on first play
+let decodedCustomSound: Promise<AudioBuffer> | null = null;
+
+// Returns whether the file was saved (storage can be full)
+export function saveCustomSoundFile(dataUrl: string): boolean {
+  decodedCustomSound = null;
+  return writeJSON(CUSTOM_SOUND_FILE_KEY, dataUrl);
+}
+
+export function deleteCustomSoundFile(): void {
+  decodedCustomSound = null;
+  removeJSON(CUSTOM_SOUND_FILE_KEY);
+}
+
+function decodeSound(audioCtx: AudioContext, dataUrl: string) {
+  return fetch(dataUrl)
+    .then((res) => res.arrayBuffer())
+    .then((data) => audioCtx.decodeAudioData(data));
+}
+
+function decodeCustomSound(audioCtx: AudioContext) {
+  if (!decodedCustomSound) {
+    const dataUrl = readJSON<unknown>(CUSTOM_SOUND_FILE_KEY, null);
+    const decoded = isAudioDataUrl(dataUrl)
+      ? decodeSound(audioCtx, dataUrl)
+      : Promise.reject(new Error("Custom sound file is missing"));
+    decoded.catch(() => {
+      if (decodedCustomSound === decoded) decodedCustomSound = null;
+    });
+    decodedCustomSound = decoded;
+  }
+  return decodedCustomSound;
+}
+
+// Rejects if the browser can't decode the file
+export async function checkCustomSound(
+  audioCtx: AudioContext,
+  dataUrl: string,
+): Promise<void> {
+  await decodeSound(audioCtx, dataUrl);
+}
+
+/**
+ * Plays one of the library sounds at `volume` percent. A custom file that
+ * fails to decode falls back to the chime so an alert is never silent by
+ * accident.
+ */
+export function playSound(
+  audioCtx: AudioContext,
+  id: SoundId,
+  volume: number,
+  customSound: CustomSound | null = null,
+): void {
+  const gain = volume / 100;
+  switch (id) {
+    case "chime":
+      playRelaxChime(audioCtx, gain);
+      break;
+    case "softBell":
+      playSoftBell(audioCtx, gain);
+      break;
+    case "lowPad":
+      playLowPad(audioCtx, gain);
+      break;
+    case "tick":
+      playTick(audioCtx, gain);
+      break;
+    case "custom":
+      if (!customSound) {
+        playRelaxChime(audioCtx, gain);
+        break;
+      }
+      decodeCustomSound(audioCtx)
+        .then((buffer) => {
+          const source = audioCtx.createBufferSource();
+          source.buffer = buffer;
+          source.connect(output(audioCtx, gain));
+          source.start();
+        })
+        .catch((err) => {
+          console.error("Custom sound failed to play:", err);
+          playRelaxChime(audioCtx, gain);
+        });
+      break;
+    case "none":
+      break;
+  }
+}
+
+// The sound mapped to an alert type
+export function playAlertSound(
+  audioCtx: AudioContext,
+  type: AlertSoundType,
+  settings: SoundSettings,
+): void {
+  playSound(
+    audioCtx,
+    settings.sounds[type],
+    settings.volume,
+    settings.customSound,
+  );
 }
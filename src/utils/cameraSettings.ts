@@ -0,0 +1,46 @@
+export type CameraResolution = "480p" | "720p" | "1080p";
+
+export const CAMERA_RESOLUTIONS: Record<
+  CameraResolution,
+  { label: string; width: number; height: number }
+> = {
+  "480p": { label: "640 × 480", width: 640, height: 480 },
+  "720p": { label: "1280 × 720 (HD)", width: 1280, height: 720 },
+  "1080p": { label: "1920 × 1080 (Full HD)", width: 1920, height: 1080 },
+};
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export type CameraSettings = {
+  deviceId: string | null; // preferred camera; null for the browser default
+  resolution: CameraResolution;
+  frameRate: number; // requested, the camera may deliver less
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: "480p",
+  frameRate: 30,
+};
+
+// Defaults overlaid with any valid stored values
+export function sanitizeCameraSettings(
+  stored: Partial<CameraSettings>,
+): CameraSettings {
+  return {
+    deviceId:
+      typeof stored.deviceId === "string" && stored.deviceId !== ""
+        ? stored.deviceId
+        : null,
+    resolution:
+      typeof stored.resolution === "string" &&
+      stored.resolution in CAMERA_RESOLUTIONS
+        ? stored.resolution
+        : DEFAULT_CAMERA_SETTINGS.resolution,
+    frameRate:
+      typeof stored.frameRate === "number" &&
+      CAMERA_FRAME_RATES.includes(stored.frameRate)
+        ? stored.frameRate
+        : DEFAULT_CAMERA_SETTINGS.frameRate,
+  };
+}
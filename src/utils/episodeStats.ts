@@ -0,0 +1,61 @@
+import type { TensionEpisode } from "../face/tensionEngine";
+
+export type DayStats = {
+  day: string; // local date key, YYYY-MM-DD
+  episodes: TensionEpisode[];
+  count: number;
+  tenseMinutes: number;
+  longestMs: number;
+  alertCount: number;
+  perHour: number[]; // episode count per local hour of day (0-23)
+};
+
+// Local (not UTC) date key so days line up with the user's clock
+export function dayKey(time: number): string {
+  const d = new Date(time);
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+export function computeDayStats(
+  day: string,
+  episodes: TensionEpisode[],
+): DayStats {
+  const perHour = new Array<number>(24).fill(0);
+  let totalMs = 0;
+  let longestMs = 0;
+  let alertCount = 0;
+
+  for (const e of episodes) {
+    perHour[new Date(e.start).getHours()]++;
+    totalMs += e.durationMs;
+    longestMs = Math.max(longestMs, e.durationMs);
+    if (e.alertFired) alertCount++;
+  }
+
+  return {
+    day,
+    episodes,
+    count: episodes.length,
+    tenseMinutes: totalMs / 60_000,
+    longestMs,
+    alertCount,
+    perHour,
+  };
+}
+
+// Stats per day, most recent first
+export function groupEpisodesByDay(episodes: TensionEpisode[]): DayStats[] {
+  const byDay = new Map<string, TensionEpisode[]>();
+  for (const e of episodes) {
+    const key = dayKey(e.start);
+    const list = byDay.get(key);
+    if (list) list.push(e);
+    else byDay.set(key, [e]);
+  }
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, list]) => computeDayStats(day, list));
+}
@@ -0,0 +1,167 @@
+import type { Signals } from "../face/computeSignals";
+import type { Thresholds } from "../face/thresholds";
+import type { CalibrationProfile } from "../hooks/useCalibrationProfiles";
+import type { TensionEpisode } from "../face/tensionEngine";
+import type { LandmarkRecording } from "../face/sessionRecording";
+
+/**
+ * Export schema, version 2.
+ *
+ * JSON (`SessionExport`):
+ * - `schemaVersion`: bumped on any breaking change to this layout
+ * - `exportedAt`: epoch ms
+ * - `segments`: the sample interval, thresholds and active baseline in
+ *   effect while the frames were recorded, one entry per change
+ * - `profiles`: calibration profiles with their neutral baselines
+ * - `episodes`: tension episodes from history
+ * - `frames`: recorded signal frames, oldest first
+ *
+ * CSV: one row per frame with `t`, its `segment` index, the classification
+ * columns and one column per `Signals` key. Leading `#` lines carry the
+ * schema version and segments as JSON (e.g. pandas `comment="#"`).
+ *
+ * Version 1 had a single `sampleIntervalMs` and `thresholds`, read at
+ * export time rather than while recording.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+// Per-frame classification alongside the raw signals
+export type FrameState = {
+  isSmiling: boolean;
+  smileScore: number; // 0..1
+  isHeadTurned: boolean;
+  isTense: boolean;
+};
+
+export type SignalFrame = FrameState & {
+  t: number; // epoch ms
+  signals: Signals;
+};
+
+// Settings in effect from `startedAt` until the next segment starts
+export type RecordingSegment = {
+  startedAt: number; // epoch ms
+  sampleIntervalMs: number; // minimum gap between recorded frames
+  thresholds: Thresholds;
+  neutral: Signals | null; // active profile's baseline
+};
+
+export type SessionExport = {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: number;
+  segments: RecordingSegment[];
+  profiles: CalibrationProfile[];
+  episodes: TensionEpisode[];
+  frames: SignalFrame[];
+};
+
+// Index of the segment a frame was recorded in
+function segmentAt(segments: RecordingSegment[], t: number): number {
+  let index = 0;
+  while (index + 1 < segments.length && segments[index + 1].startedAt <= t) {
+    index++;
+  }
+  return index;
+}
+
+// Segments from the one the oldest frame was recorded in, since older frames
+// are dropped once the recording is full
+function liveSegments(
+  frames: SignalFrame[],
+  segments: RecordingSegment[],
+): RecordingSegment[] {
+  return frames[0] ? segments.slice(segmentAt(segments, frames[0].t)) : [];
+}
+
+export function buildSessionExport(session: {
+  segments: RecordingSegment[];
+  profiles: CalibrationProfile[];
+  episodes: TensionEpisode[];
+  frames: SignalFrame[];
+}): SessionExport {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    segments: liveSegments(session.frames, session.segments),
+    profiles: session.profiles,
+    episodes: session.episodes,
+    frames: session.frames,
+  };
+}
+
+export function framesToCSV(
+  frames: SignalFrame[],
+  recordingSegments: RecordingSegment[],
+): string {
+  const segments = liveSegments(frames, recordingSegments);
+  const signalKeys = frames[0]
+    ? (Object.keys(frames[0].signals) as (keyof Signals)[])
+    : [];
+
+  const lines = [
+    `# schemaVersion: ${EXPORT_SCHEMA_VERSION}`,
+    `# segments: ${JSON.stringify(segments)}`,
+    [
+      "t",
+      "segment",
+      "isSmiling",
+      "smileScore",
+      "isHeadTurned",
+      "isTense",
+      ...signalKeys,
+    ].join(","),
+  ];
+
+  for (const f of frames) {
+    lines.push(
+      [
+        f.t,
+        segmentAt(segments, f.t),
+        f.isSmiling,
+        f.smileScore,
+        f.isHeadTurned,
+        f.isTense,
+        ...signalKeys.map((key) => f.signals[key]),
+      ].join(","),
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function episodesToCSV(episodes: TensionEpisode[]): string {
+  const lines = ["start,end,durationMs,regions,alertFired"];
+  for (const e of episodes) {
+    lines.push(
+      [e.start, e.end, e.durationMs, e.regions.join("|"), e.alertFired].join(
+        ",",
+      ),
+    );
+  }
+  return lines.join("\n");
+}
+
+const REVOKE_DELAY_MS = 10_000;
+
+// Triggers a browser download of in-memory content
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+export function downloadRecording(recording: LandmarkRecording): void {
+  downloadFile(
+    `face-tension-landmarks-${recording.startedAt}.json`,
+    JSON.stringify(recording),
+    "application/json",
+  );
+}
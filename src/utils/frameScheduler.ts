@@ -0,0 +1,125 @@
+import type { TimerRequest } from "./timer.worker";
+
+export type ScheduleMode = "foreground" | "background";
+
+export interface FrameScheduler {
+  setBackgroundInterval(intervalMs: number): void;
+  stop(): void;
+}
+
+type VideoWithFrameCallback = HTMLVideoElement & {
+  requestVideoFrameCallback(callback: () => void): number;
+  cancelVideoFrameCallback(handle: number): void;
+};
+
+function hasVideoFrameCallback(
+  video: HTMLVideoElement,
+): video is VideoWithFrameCallback {
+  return "requestVideoFrameCallback" in video;
+}
+
+/**
+ * Calls `tick` once per new video frame while the tab is visible
+ * (requestVideoFrameCallback, or requestAnimationFrame as a fallback), and
+ * from a worker timer at a lower rate while hidden, when the browser
+ * throttles or stops animation frames.
+ */
+export function createFrameScheduler(
+  video: HTMLVideoElement,
+  tick: () => void,
+  options: {
+    backgroundIntervalMs: number;
+    onModeChange?: (mode: ScheduleMode) => void;
+  },
+): FrameScheduler {
+  let backgroundIntervalMs = options.backgroundIntervalMs;
+  let stopped = false;
+  let frameHandle: number | null = null;
+  let fallbackTimerId: ReturnType<typeof setInterval> | null = null;
+
+  let timerWorker: Worker | null = null;
+  if (typeof Worker !== "undefined") {
+    try {
+      timerWorker = new Worker(new URL("./timer.worker.ts", import.meta.url), {
+        type: "module",
+      });
+      timerWorker.onmessage = () => tick();
+    } catch (err) {
+      console.warn("Timer worker unavailable, using main-thread timer:", err);
+    }
+  }
+
+  function scheduleFrame() {
+    if (stopped || document.hidden) return;
+    frameHandle = hasVideoFrameCallback(video)
+      ? video.requestVideoFrameCallback(onFrame)
+      : requestAnimationFrame(onFrame);
+  }
+
+  function onFrame() {
+    frameHandle = null;
+    tick();
+    scheduleFrame();
+  }
+
+  function cancelFrame() {
+    if (frameHandle === null) return;
+    if (hasVideoFrameCallback(video)) {
+      video.cancelVideoFrameCallback(frameHandle);
+    } else {
+      cancelAnimationFrame(frameHandle);
+    }
+    frameHandle = null;
+  }
+
+  function startBackground() {
+    if (timerWorker) {
+      const request: TimerRequest = {
+        type: "start",
+        intervalMs: backgroundIntervalMs,
+      };
+      timerWorker.postMessage(request);
+    } else {
+      fallbackTimerId = setInterval(tick, backgroundIntervalMs);
+    }
+  }
+
+  function stopBackground() {
+    const request: TimerRequest = { type: "stop" };
+    timerWorker?.postMessage(request);
+    if (fallbackTimerId !== null) clearInterval(fallbackTimerId);
+    fallbackTimerId = null;
+  }
+
+  function applyVisibility() {
+    if (document.hidden) {
+      cancelFrame();
+      startBackground();
+      options.onModeChange?.("background");
+    } else {
+      stopBackground();
+      scheduleFrame();
+      options.onModeChange?.("foreground");
+    }
+  }
+
+  document.addEventListener("visibilitychange", applyVisibility);
+  applyVisibility();
+
+  return {
+    setBackgroundInterval(intervalMs) {
+      backgroundIntervalMs = intervalMs;
+      if (document.hidden) {
+        stopBackground();
+        startBackground();
+      }
+    },
+    stop() {
+      stopped = true;
+      document.removeEventListener("visibilitychange", applyVisibility);
+      cancelFrame();
+      stopBackground();
+      timerWorker?.terminate();
+    },
+  };
+}
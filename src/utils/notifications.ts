@@ -0,0 +1,49 @@
+export const SNOOZE_ACTION = "snooze";
+
+// Posted to the page by public/notification-sw.js
+export type NotificationActionMessage = {
+  type: "notification-action";
+  action: string;
+  tag: string;
+};
+
+// `actions` isn't in TypeScript's DOM lib yet
+type NotificationOptionsWithActions = NotificationOptions & {
+  actions?: { action: string; title: string }[];
+};
+
+/**
+ * Shows a notification through the service worker when there is one, so it
+ * can carry a snooze button; falls back to a plain page notification.
+ */
+export async function showAlertNotification(
+  body: string,
+  { snoozeMinutes, tag }: { snoozeMinutes: number; tag: string },
+) {
+  if (!("Notification" in window) || Notification.permission !== "granted") {
+    return;
+  }
+
+  const options: NotificationOptionsWithActions = {
+    body,
+    icon: "/favicon.ico",
+    tag,
+    requireInteraction: true,
+  };
+
+  const registration =
+    "serviceWorker" in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+  if (registration) {
+    await registration.showNotification("Face Tension Monitor", {
+      ...options,
+      actions: [
+        { action: SNOOZE_ACTION, title: `Snooze ${snoozeMinutes} min` },
+      ],
+    } as NotificationOptions);
+    return;
+  }
+
+  new Notification("Face Tension Monitor", options);
+}
@@ -0,0 +1,68 @@
+import type { TimerRequest } from "./timer.worker";
+
+const FRAME_INTERVAL_MS = 33; // ~30fps into the PiP window
+
+export interface PipCompositor {
+  stream: MediaStream; // play this in the video element put into PiP
+  stop(): void;
+}
+
+/**
+ * Draws the camera video with the landmark canvas on top into an offscreen
+ * canvas and captures it as a stream, so the Picture-in-Picture window shows
+ * the overlays too. The picture is mirrored like the in-page view, which the
+ * overlay's labels are drawn for.
+ *
+ * Frames come from a worker timer, since PiP is mostly used while the tab is
+ * hidden and animation frames stop. The overlay itself only changes when
+ * detection runs, so it lags the video at the background sampling rate.
+ */
+export function createPipCompositor(
+  video: HTMLVideoElement,
+  overlay: HTMLCanvasElement,
+): PipCompositor {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context unavailable");
+  const stream = canvas.captureStream();
+
+  function draw() {
+    const { videoWidth: width, videoHeight: height } = video;
+    if (width === 0 || height === 0 || !context) return;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    context.setTransform(-1, 0, 0, 1, width, 0);
+    context.drawImage(video, 0, 0, width, height);
+    context.drawImage(overlay, 0, 0, width, height);
+  }
+  draw();
+
+  let timerWorker: Worker | null = null;
+  let fallbackTimerId: ReturnType<typeof setInterval> | null = null;
+  try {
+    timerWorker = new Worker(new URL("./timer.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    timerWorker.onmessage = draw;
+    const request: TimerRequest = {
+      type: "start",
+      intervalMs: FRAME_INTERVAL_MS,
+    };
+    timerWorker.postMessage(request);
+  } catch (err) {
+    console.warn("Timer worker unavailable, using main-thread timer:", err);
+    fallbackTimerId = setInterval(draw, FRAME_INTERVAL_MS);
+  }
+
+  return {
+    stream,
+    stop() {
+      timerWorker?.terminate();
+      if (fallbackTimerId !== null) clearInterval(fallbackTimerId);
+      for (const track of stream.getTracks()) track.stop();
+    },
+  };
+}
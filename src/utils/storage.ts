@@ -0,0 +1,32 @@
+/**
+ * Small localStorage helpers that never throw.
+ * Storage can be unavailable (private mode, quota) or hold stale JSON,
+ * in which case reads fall back and writes are dropped.
+ */
+export function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+// Returns whether the value was saved
+export function writeJSON(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    console.error(`Failed to save ${key}:`, err);
+    return false;
+  }
+}
+
+export function removeJSON(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (err) {
+    console.error(`Failed to remove ${key}:`, err);
+  }
+}
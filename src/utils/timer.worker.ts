@@ -0,0 +1,15 @@
+// Worker timers aren't throttled in hidden tabs the way main-thread timers
+// and requestAnimationFrame are, so this drives background sampling.
+export type TimerRequest =
+  { type: "start"; intervalMs: number } | { type: "stop" };
+
+let timerId: ReturnType<typeof setInterval> | null = null;
+
+self.onmessage = (e: MessageEvent<TimerRequest>) => {
+  if (timerId !== null) clearInterval(timerId);
+  timerId = null;
+
+  if (e.data.type === "start") {
+    timerId = setInterval(() => self.postMessage("tick"), e.data.intervalMs);
+  }
+};
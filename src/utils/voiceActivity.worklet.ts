@@ -0,0 +1,60 @@
+// Voice activity detection on the audio rendering thread, which keeps running
+// in hidden tabs where main-thread timers are throttled. Posts the voice
+// state to the node's port whenever it changes.
+
+// AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new () => AudioWorkletProcessor,
+): void;
+
+const WINDOW_MS = 100; // level is measured over windows this long
+const HANGOVER_MS = 400; // stay "active" through short gaps between words
+const MIN_RMS = 0.01;
+const NOISE_FLOOR_ADAPT = 0.05; // per window, while quiet
+
+class VoiceActivityProcessor extends AudioWorkletProcessor {
+  private windowSamples = Math.round((sampleRate * WINDOW_MS) / 1000);
+  private sumSquares = 0;
+  private sampleCount = 0;
+  private noiseFloor = MIN_RMS;
+  private sinceVoiceMs = Infinity;
+  private isActive = false;
+
+  process(inputs: Float32Array[][]) {
+    // First channel of the microphone input; empty while it's disconnected
+    const samples = inputs[0]?.[0];
+    if (!samples) return true;
+
+    for (const v of samples) this.sumSquares += v * v;
+    this.sampleCount += samples.length;
+    if (this.sampleCount >= this.windowSamples) this.endWindow();
+    return true;
+  }
+
+  private endWindow() {
+    const rms = Math.sqrt(this.sumSquares / this.sampleCount);
+    const windowMs = (this.sampleCount / sampleRate) * 1000;
+    this.sumSquares = 0;
+    this.sampleCount = 0;
+
+    if (rms > Math.max(MIN_RMS, this.noiseFloor * 3)) {
+      this.sinceVoiceMs = 0;
+    } else {
+      this.sinceVoiceMs += windowMs;
+      this.noiseFloor += (rms - this.noiseFloor) * NOISE_FLOOR_ADAPT;
+    }
+
+    const isActive = this.sinceVoiceMs < HANGOVER_MS;
+    if (isActive !== this.isActive) {
+      this.isActive = isActive;
+      this.port.postMessage(isActive);
+    }
+  }
+}
+
+registerProcessor("voice-activity", VoiceActivityProcessor);
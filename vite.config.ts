@@ -1,14 +1,62 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import { VitePWA } from "vite-plugin-pwa";
 import path from "path";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [
+    react(),
+    tailwindcss(),
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["favicon.ico", "models/face_landmarker.task"],
+      manifest: {
+        name: "Face Tension Monitor",
+        short_name: "Tension Monitor",
+        description:
+          "Real-time facial tension awareness, running locally in the browser.",
+        theme_color: "#18181b",
+        background_color: "#18181b",
+        display: "standalone",
+        icons: [
+          { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+          { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+        ],
+      },
+      workbox: {
+        // App shell, the MediaPipe WASM and the face model, so the app starts offline
+        globPatterns: ["**/*.{js,css,html,ico,png,wasm,task}"],
+        globIgnores: [
+          "images/**", // README screenshots
+          // Only browsers without WASM SIMD load this build, so it's cached
+          // on first use instead of downloaded by everyone
+          "assets/vision_wasm_nosimd_internal-*",
+        ],
+        runtimeCaching: [
+          {
+            urlPattern:
+              /\/assets\/vision_wasm_nosimd_internal-[^/]+\.(js|wasm)$/,
+            handler: "CacheFirst",
+            options: { cacheName: "mediapipe-wasm-nosimd" },
+          },
+        ],
+        // The WASM binary (~10 MB) and model are well over workbox's 2 MB default
+        maximumFileSizeToCacheInBytes: 16 * 1024 * 1024,
+        // Forwards notification actions (e.g. snooze) to the page
+        importScripts: ["notification-sw.js"],
+      },
+    }),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // tasks-vision's package exports hide its wasm folder
+      "@mediapipe-wasm": path.resolve(
+        __dirname,
+        "./node_modules/@mediapipe/tasks-vision/wasm",
+      ),
     },
   },
 });